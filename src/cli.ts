@@ -0,0 +1,637 @@
+/**
+ * Command line parsing: subcommands, per-command options and help text
+ */
+
+import { MergeSide, Params, ProviderKind } from './types';
+import { DEFAULT_CONFIG_FILE, defaultParams, resolveParams } from './config';
+import { parseWebhookTarget } from './utils/notifyUtils';
+import { parseReportOutput } from './utils/reportUtils';
+
+export class CliError extends Error {
+  constructor(message: string, public readonly command?: CommandName) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+export type CommandName =
+  | 'run'
+  | 'scan'
+  | 'check'
+  | 'report'
+  | 'add'
+  | 'remove'
+  | 'list'
+  | 'publish'
+  | 'prune'
+  | 'merge-games'
+  | 'serve'
+  | 'watch';
+
+interface OptionSpec {
+  name: string;
+  /** Value placeholder for help text; options without one are flags */
+  value?: string;
+  description: string;
+  /**
+   * Repeatable options add to a list setting; the first use on the command
+   * line replaces the configured list instead of extending it
+   */
+  repeatable?: keyof Params;
+  /** Other spellings accepted on the command line, e.g. `dry-run` */
+  aliases?: string[];
+  apply: (params: Params, value: string) => void;
+}
+
+interface CommandSpec {
+  name: CommandName;
+  summary: string;
+  /** Positional arguments, as shown in usage */
+  args?: string;
+  minArgs: number;
+  maxArgs: number;
+  /** Positional arguments are file paths rather than AppIDs */
+  pathArgs?: boolean;
+  options: OptionSpec[];
+}
+
+export interface ParsedCommand {
+  /** null when only the command overview was asked for */
+  command: CommandName | null;
+  params: Params;
+  /** Positional AppIDs */
+  appIds: number[];
+  /** Positional file paths, for commands with pathArgs */
+  paths: string[];
+  help: boolean;
+}
+
+function parseMergeSide(option: string, value: string): MergeSide {
+  if (value !== 'local' && value !== 'actions') {
+    throw new CliError(`--${option} expects local or actions, got "${value}"`);
+  }
+  return value;
+}
+
+function parseProvider(value: string): ProviderKind {
+  if (value !== 'steamcmd' && value !== 'record' && value !== 'replay') {
+    throw new CliError(
+      `--Provider expects steamcmd, record or replay, got "${value}"`
+    );
+  }
+  return value;
+}
+
+function parseInteger(option: string, value: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new CliError(`--${option} expects a number, got "${value}"`);
+  }
+  return parseInt(value, 10);
+}
+
+const REPO_OPTIONS: OptionSpec[] = [
+  {
+    name: 'RepoPath',
+    value: 'path',
+    description: 'Repository holding games.json and the report (default: .)',
+    apply: (p, v) => (p.RepoPath = v),
+  },
+];
+
+const STEAM_OPTIONS: OptionSpec[] = [
+  {
+    name: 'SteamCmdPath',
+    value: 'path',
+    description:
+      'Path to the steamcmd executable (required unless --Provider replay)',
+    apply: (p, v) => (p.SteamCmdPath = v),
+  },
+  {
+    name: 'Provider',
+    value: 'steamcmd|record|replay',
+    description:
+      'Ask Steam, ask Steam and save the raw answers, or replay saved answers offline (default: steamcmd)',
+    apply: (p, v) => (p.Provider = parseProvider(v)),
+  },
+  {
+    name: 'FixturesDir',
+    value: 'path',
+    description:
+      'Where record saves and replay reads raw answers (default: fixtures)',
+    apply: (p, v) => (p.FixturesDir = v),
+  },
+];
+
+const GIT_OPTIONS: OptionSpec[] = [
+  {
+    name: 'GitUserName',
+    value: 'name',
+    description: 'Git user name for the report commit (required to commit)',
+    apply: (p, v) => (p.GitUserName = v),
+  },
+  {
+    name: 'GitUserEmail',
+    value: 'email',
+    description: 'Git user email for the report commit (required to commit)',
+    apply: (p, v) => (p.GitUserEmail = v),
+  },
+];
+
+const PUBLISH_OPTIONS: OptionSpec[] = [
+  {
+    name: 'PublishBranch',
+    value: 'branch',
+    description:
+      'Publish the reports and feed to this branch (e.g. gh-pages); games.json stays on the current branch',
+    apply: (p, v) => (p.PublishBranch = v),
+  },
+  {
+    name: 'DryRun',
+    aliases: ['dry-run'],
+    description: 'Show what would be committed and pushed without doing it',
+    apply: (p) => (p.DryRun = true),
+  },
+];
+
+const BACKUP_OPTIONS: OptionSpec[] = [
+  {
+    name: 'BackupDir',
+    value: 'path',
+    description: 'Directory containing backup archives (default: .)',
+    apply: (p, v) => (p.BackupDir = v),
+  },
+  {
+    name: 'ExtraBackupDir',
+    value: 'path',
+    description: 'Another directory containing backup archives (repeatable)',
+    repeatable: 'ExtraBackupDirs',
+    apply: (p, v) => p.ExtraBackupDirs.push(v),
+  },
+  {
+    name: 'BackupPattern',
+    value: 'template',
+    description:
+      'Backup filename template, e.g. "{name}_{appid}_{build}" (repeatable)',
+    repeatable: 'BackupPatterns',
+    apply: (p, v) => p.BackupPatterns.push(v),
+  },
+  {
+    name: 'BackupExtensions',
+    value: 'list',
+    description: 'Comma-separated accepted extensions, e.g. ".7z,.zip,folder"',
+    apply: (p, v) =>
+      (p.BackupExtensions = v
+        .split(',')
+        .map((ext) => ext.trim())
+        .filter(Boolean)),
+  },
+  {
+    name: 'SteamLibrary',
+    value: 'path',
+    description: 'Steam library folder to read appmanifests from (repeatable)',
+    repeatable: 'SteamLibraries',
+    apply: (p, v) => p.SteamLibraries.push(v),
+  },
+];
+
+const FULL_OPTION: OptionSpec = {
+  name: 'Full',
+  description:
+    'Re-read every app and its reviews, even when its change number is unchanged',
+  apply: (p) => (p.SkipUnchanged = false),
+};
+
+const ENRICH_OPTION: OptionSpec = {
+  name: 'Enrich',
+  description:
+    'Also fetch store metadata (header image, release date, genres, ...), cached for StoreMaxAgeHours',
+  apply: (p) => (p.Enrich = true),
+};
+
+const WEBHOOK_OPTIONS: OptionSpec[] = [
+  {
+    name: 'Webhook',
+    value: '[json:|discord:|slack:]url',
+    description: 'Webhook to notify about new updates (repeatable)',
+    repeatable: 'Webhooks',
+    apply: (p, v) => p.Webhooks.push(parseWebhookTarget(v)),
+  },
+];
+
+/**
+ * Accepted by every command; read before the other options are applied
+ */
+const CONFIG_OPTION: OptionSpec = {
+  name: 'Config',
+  value: 'file',
+  description: `Config file (default: $STEAMVC_CONFIG or ./${DEFAULT_CONFIG_FILE} if present)`,
+  apply: () => undefined,
+};
+
+const REPORT_OPTIONS: OptionSpec[] = [
+  {
+    name: 'Report',
+    value: 'format[=file]',
+    description:
+      'Report to write: html, json, csv or markdown, optionally with a path (repeatable; default: html)',
+    repeatable: 'Reports',
+    apply: (p, v) => p.Reports.push(parseReportOutput(v)),
+  },
+  {
+    name: 'HtmlTemplate',
+    value: 'file',
+    description:
+      'Custom HTML report template; assets it includes are read from its directory',
+    apply: (p, v) => (p.HtmlTemplate = v),
+  },
+];
+
+const COMMANDS: CommandSpec[] = [
+  {
+    name: 'run',
+    summary:
+      'Scan backups (or all games in GitHub Actions), check Steam, write the report and publish it (default)',
+    minArgs: 0,
+    maxArgs: 0,
+    options: [
+      ...STEAM_OPTIONS,
+      ...REPO_OPTIONS,
+      ...GIT_OPTIONS,
+      ...PUBLISH_OPTIONS,
+      ...BACKUP_OPTIONS,
+      ...WEBHOOK_OPTIONS,
+      ...REPORT_OPTIONS,
+      FULL_OPTION,
+      ENRICH_OPTION,
+    ],
+  },
+  {
+    name: 'scan',
+    summary:
+      'Scan local backups and libraries and compare them with games.json (no network, no writes)',
+    minArgs: 0,
+    maxArgs: 0,
+    options: [...REPO_OPTIONS, ...BACKUP_OPTIONS],
+  },
+  {
+    name: 'check',
+    summary:
+      'Check the given AppIDs (default: all in games.json) against Steam and update games.json and the report',
+    args: '[appid...]',
+    minArgs: 0,
+    maxArgs: Infinity,
+    options: [
+      ...STEAM_OPTIONS,
+      ...REPO_OPTIONS,
+      ...WEBHOOK_OPTIONS,
+      ...REPORT_OPTIONS,
+      FULL_OPTION,
+      ENRICH_OPTION,
+    ],
+  },
+  {
+    name: 'report',
+    summary: 'Re-render the reports and feed from games.json without network',
+    minArgs: 0,
+    maxArgs: 0,
+    options: [...REPO_OPTIONS, ...REPORT_OPTIONS],
+  },
+  {
+    name: 'add',
+    summary: 'Add a game to games.json',
+    args: '<appid>',
+    minArgs: 1,
+    maxArgs: 1,
+    options: [
+      ...REPO_OPTIONS,
+      {
+        name: 'Name',
+        value: 'name',
+        description:
+          'Game name (looked up through SteamCMD, or the fixtures with --Provider replay, when omitted)',
+        apply: (p, v) => (p.Name = v),
+      },
+      {
+        name: 'InstalledBuild',
+        value: 'build',
+        description: 'Installed/backed up build id',
+        apply: (p, v) => (p.InstalledBuild = parseInteger('InstalledBuild', v)),
+      },
+      {
+        name: 'Branch',
+        value: 'branch',
+        description: 'Steam branch to track (default: public)',
+        apply: (p, v) => (p.Branch = v),
+      },
+      ...STEAM_OPTIONS,
+    ],
+  },
+  {
+    name: 'remove',
+    summary: 'Remove a game from games.json',
+    args: '<appid>',
+    minArgs: 1,
+    maxArgs: 1,
+    options: [...REPO_OPTIONS],
+  },
+  {
+    name: 'watch',
+    summary:
+      'Watch the backup directories and check new, replaced and deleted backups as they change',
+    minArgs: 0,
+    maxArgs: 0,
+    options: [
+      ...STEAM_OPTIONS,
+      ...REPO_OPTIONS,
+      ...BACKUP_OPTIONS,
+      {
+        name: 'DebounceMs',
+        value: 'ms',
+        description:
+          'Quiet time after file events before rescanning (default: 2000)',
+        apply: (p, v) => (p.WatchDebounceMs = parseInteger('DebounceMs', v)),
+      },
+      {
+        name: 'SettleMs',
+        value: 'ms',
+        description:
+          'How long an archive must stay unchanged before it counts as written (default: 10000)',
+        apply: (p, v) => (p.WatchSettleMs = parseInteger('SettleMs', v)),
+      },
+      ...WEBHOOK_OPTIONS,
+      ...REPORT_OPTIONS,
+      FULL_OPTION,
+      ENRICH_OPTION,
+    ],
+  },
+  {
+    name: 'serve',
+    summary:
+      'Serve the report on localhost with a JSON API, on-demand refresh and live updates',
+    minArgs: 0,
+    maxArgs: 0,
+    options: [
+      ...REPO_OPTIONS,
+      ...STEAM_OPTIONS,
+      {
+        name: 'Host',
+        value: 'address',
+        description: 'Address to listen on (default: 127.0.0.1)',
+        apply: (p, v) => (p.ServeHost = v),
+      },
+      {
+        name: 'Port',
+        value: 'port',
+        description: 'Port to listen on (default: 8080)',
+        apply: (p, v) => (p.ServePort = parseInteger('Port', v)),
+      },
+      ...WEBHOOK_OPTIONS,
+      REPORT_OPTIONS[1],
+      FULL_OPTION,
+      ENRICH_OPTION,
+    ],
+  },
+  {
+    name: 'list',
+    summary: 'List the games in games.json',
+    minArgs: 0,
+    maxArgs: 0,
+    options: [...REPO_OPTIONS],
+  },
+  {
+    name: 'publish',
+    summary: 'Commit and push the report and games.json',
+    minArgs: 0,
+    maxArgs: 0,
+    options: [...REPO_OPTIONS, ...GIT_OPTIONS, ...PUBLISH_OPTIONS],
+  },
+  {
+    name: 'prune',
+    summary:
+      'List superseded backups and the space they use; remove them with --Confirm',
+    minArgs: 0,
+    maxArgs: 0,
+    options: [
+      ...BACKUP_OPTIONS.filter((o) => o.name !== 'SteamLibrary'),
+      {
+        name: 'Confirm',
+        description: 'Actually prune instead of doing a dry run',
+        apply: (p) => (p.Confirm = true),
+      },
+      {
+        name: 'TrashDir',
+        value: 'path',
+        description: 'Move pruned archives here instead of deleting them',
+        apply: (p, v) => (p.TrashDir = v),
+      },
+    ],
+  },
+  {
+    name: 'merge-games',
+    summary:
+      'Three-way merge of games.json versions per game and field; usable as a git merge driver',
+    args: '<base> <ours> <theirs>',
+    minArgs: 3,
+    maxArgs: 3,
+    pathArgs: true,
+    options: [
+      {
+        name: 'Ours',
+        value: 'local|actions',
+        description:
+          'Kind of run that wrote <ours> (default: this run mode); the merged result is written to <ours>',
+        apply: (p, v) => (p.MergeOurs = parseMergeSide('Ours', v)),
+      },
+      {
+        name: 'Theirs',
+        value: 'local|actions',
+        description:
+          'Kind of run that wrote <theirs> (default: the other kind)',
+        apply: (p, v) => (p.MergeTheirs = parseMergeSide('Theirs', v)),
+      },
+    ],
+  },
+];
+
+function findCommand(name: string): CommandSpec | undefined {
+  return COMMANDS.find((c) => c.name === name);
+}
+
+function commandOptions(spec: CommandSpec): OptionSpec[] {
+  return [...spec.options, CONFIG_OPTION];
+}
+
+/**
+ * Usage text for one command, or an overview of all commands
+ */
+export function formatHelp(command?: CommandName | null): string {
+  const spec = command ? findCommand(command) : undefined;
+
+  if (!spec) {
+    const width = Math.max(...COMMANDS.map((c) => c.name.length));
+    return [
+      'Usage: steam-backup-report [command] [options]',
+      '',
+      'Commands:',
+      ...COMMANDS.map((c) => `  ${c.name.padEnd(width)}  ${c.summary}`),
+      '',
+      'Run "steam-backup-report <command> --help" for command options.',
+      'Without a command, "run" is used.',
+    ].join('\n');
+  }
+
+  const lines = [
+    `Usage: steam-backup-report ${spec.name}${
+      spec.args ? ` ${spec.args}` : ''
+    } [options]`,
+    '',
+    spec.summary,
+    '',
+    'Options:',
+  ];
+  const rendered = commandOptions(spec).map((o) => ({
+    flag: [o.name, ...(o.aliases ?? [])]
+      .map((name) => `--${name}${o.value ? ` <${o.value}>` : ''}`)
+      .join(', '),
+    description: o.description,
+  }));
+  rendered.push({ flag: '--help', description: 'Show this help' });
+  const width = Math.max(...rendered.map((r) => r.flag.length));
+  for (const r of rendered) {
+    lines.push(`  ${r.flag.padEnd(width)}  ${r.description}`);
+  }
+  lines.push(
+    '',
+    'Options override STEAMVC_* environment variables, which override the',
+    'config file.'
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Parse argv (without node and script) into a command and its parameters.
+ * Throws CliError for unknown commands or options and missing values.
+ */
+export function parseCommandLine(argv: string[]): ParsedCommand {
+  let rest = argv;
+  let commandName = 'run';
+  if (rest.length && !rest[0].startsWith('-')) {
+    commandName = rest[0];
+    rest = rest.slice(1);
+  } else if (rest.length === 1 && (rest[0] === '--help' || rest[0] === '-h')) {
+    commandName = 'help';
+    rest = [];
+  }
+  if (commandName === 'help') {
+    return {
+      command: findCommand(rest[0] ?? '')?.name ?? null,
+      params: defaultParams(),
+      appIds: [],
+      paths: [],
+      help: true,
+    };
+  }
+
+  const spec = findCommand(commandName);
+  if (!spec) {
+    throw new CliError(`Unknown command "${commandName}"`);
+  }
+
+  const options = commandOptions(spec);
+  const given: { option: OptionSpec; value: string }[] = [];
+  const positional: string[] = [];
+  let help = false;
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === '--help' || arg === '-h') {
+      help = true;
+      continue;
+    }
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+
+    const eq = arg.indexOf('=');
+    const name = arg.substring(2, eq === -1 ? undefined : eq);
+    const option = options.find((o) =>
+      [o.name, ...(o.aliases ?? [])].some(
+        (n) => n.toLowerCase() === name.toLowerCase()
+      )
+    );
+    if (!option) {
+      throw new CliError(
+        `Unknown option --${name} for "${spec.name}"`,
+        spec.name
+      );
+    }
+
+    let value = '';
+    if (option.value) {
+      if (eq !== -1) {
+        value = arg.substring(eq + 1);
+      } else if (i + 1 < rest.length && !rest[i + 1].startsWith('--')) {
+        value = rest[++i];
+      } else {
+        throw new CliError(
+          `Option --${option.name} requires a value`,
+          spec.name
+        );
+      }
+    } else if (eq !== -1) {
+      throw new CliError(
+        `Option --${option.name} does not take a value`,
+        spec.name
+      );
+    }
+    given.push({ option, value });
+  }
+
+  if (help) {
+    return {
+      command: spec.name,
+      params: defaultParams(),
+      appIds: [],
+      paths: [],
+      help,
+    };
+  }
+
+  // Command line options are applied on top of the config file and
+  // environment.
+  const configFile = given.find((g) => g.option === CONFIG_OPTION)?.value;
+  const params = resolveParams(configFile);
+  const replaced = new Set<keyof Params>();
+  for (const { option, value } of given) {
+    if (option.repeatable && !replaced.has(option.repeatable)) {
+      (params as unknown as Record<string, unknown[]>)[option.repeatable] = [];
+      replaced.add(option.repeatable);
+    }
+    try {
+      option.apply(params, value);
+    } catch (e) {
+      throw new CliError((e as Error).message, spec.name);
+    }
+  }
+
+  if (positional.length < spec.minArgs || positional.length > spec.maxArgs) {
+    throw new CliError(
+      spec.maxArgs === 0
+        ? `"${spec.name}" takes no arguments, got: ${positional.join(' ')}`
+        : `"${spec.name}" expects ${spec.args}`,
+      spec.name
+    );
+  }
+  if (spec.pathArgs) {
+    return { command: spec.name, params, appIds: [], paths: positional, help };
+  }
+  const appIds = positional.map((value) => {
+    if (!/^\d+$/.test(value)) {
+      throw new CliError(`Invalid AppID "${value}"`, spec.name);
+    }
+    return parseInt(value, 10);
+  });
+
+  return { command: spec.name, params, appIds, paths: [], help };
+}
@@ -0,0 +1,1074 @@
+/**
+ * Command implementations for the CLI
+ */
+
+import * as fs from 'fs';
+import {
+  FetchFailure,
+  Params,
+  GameData,
+  GameStatus,
+  GamesDataMap,
+  LocalBackup,
+  UpdateNotification,
+} from './types';
+import {
+  getReportFile,
+  getDataFile,
+  getFeedFile,
+  getQuarantineFile,
+  readGamesData,
+  writeGamesData,
+  getLocalBackups,
+  getLibraryInstalls,
+  selectCurrentBackups,
+} from './utils/fileUtils';
+import {
+  getInstallSize,
+  getStoredReviewSummary,
+  isRemovedApp,
+  toLatestBuildInfo,
+  toUnchangedBuildInfo,
+} from './utils/steamUtils';
+import {
+  getReportOutputFile,
+  REPORT_RENDERERS,
+  writeReports,
+} from './utils/reportUtils';
+import { recordHistory } from './utils/historyUtils';
+import { generateAtomFeed } from './utils/rssUtils';
+import { detectNotification, sendNotifications } from './utils/notifyUtils';
+import { executePrunePlan, logPrunePlan, planPrune } from './utils/pruneUtils';
+import { CliError } from './cli';
+import { isActionsMode } from './config';
+import { publishFiles } from './utils/gitUtils';
+import { updateRatingTrend } from './utils/ratingUtils';
+import { isStoreMetadataDue } from './utils/storeUtils';
+import { BackupSettleTracker, watchDirectories } from './utils/watchUtils';
+import {
+  HttpError,
+  ServerEvents,
+  startReportServer,
+} from './utils/serverUtils';
+import {
+  BuildInfoProvider,
+  createBuildInfoProvider,
+} from './utils/providerUtils';
+import {
+  formatStatus,
+  getGameStatus,
+  getStoredStatusFacts,
+} from './utils/statusUtils';
+import {
+  GamesMergeError,
+  getMergeDriverConfig,
+  mergeGamesData,
+  readMergeSide,
+} from './utils/mergeUtils';
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T) => Promise<R>
+): Promise<R[]> {
+  const concurrency = Math.max(1, Math.floor(limit));
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  async function worker() {
+    while (true) {
+      const currentIndex = nextIndex++;
+      if (currentIndex >= items.length) return;
+      results[currentIndex] = await mapper(items[currentIndex]);
+    }
+  }
+
+  const workers = new Array(Math.min(concurrency, items.length))
+    .fill(null)
+    .map(() => worker());
+  await Promise.all(workers);
+  return results;
+}
+
+function requireParam<
+  K extends 'SteamCmdPath' | 'GitUserName' | 'GitUserEmail'
+>(params: Params, key: K): string {
+  const value = params[key];
+  if (!value) throw new CliError(`Missing required option --${key}`);
+  return value;
+}
+
+/**
+ * Build info provider selected by --Provider; only replay works without
+ * SteamCMD
+ */
+function getBuildInfoProvider(params: Params): BuildInfoProvider {
+  return createBuildInfoProvider(
+    params.Provider,
+    params.FixturesDir,
+    params,
+    params.Provider === 'replay'
+      ? undefined
+      : requireParam(params, 'SteamCmdPath')
+  );
+}
+
+/**
+ * Status of a game from games.json, re-decided from its stored builds
+ */
+function getCurrentStatus(game: GameData): GameStatus {
+  return getGameStatus(game, getStoredStatusFacts(game));
+}
+
+/**
+ * Resolved paths of the reports selected for this run
+ */
+function getReportOutputs(params: Params) {
+  const htmlFile = getReportFile(params.RepoPath, params.ReportFile);
+  return params.Reports.map((output) => ({
+    Format: output.Format,
+    Path: getReportOutputFile(params.RepoPath, output, htmlFile),
+  }));
+}
+
+/**
+ * Report timestamp in the configured time zone
+ */
+function formatReportDate(timeZone: string): string {
+  return new Date()
+    .toLocaleString('sv-SE', { timeZone, hour12: false })
+    .replace(',', ' ')
+    .replace(' ', ' ');
+}
+
+/**
+ * BackupDir followed by ExtraBackupDirs
+ */
+function getBackupDirs(params: Params): string[] {
+  return [params.BackupDir, ...params.ExtraBackupDirs];
+}
+
+/**
+ * Backups in every backup directory
+ */
+function scanBackupDirs(params: Params): LocalBackup[] {
+  return getBackupDirs(params).flatMap((dir) =>
+    getLocalBackups(dir, {
+      Patterns: params.BackupPatterns,
+      Extensions: params.BackupExtensions,
+    })
+  );
+}
+
+/**
+ * Scan backups (unless given) and Steam libraries, resolving duplicates.
+ * Backups take precedence over a library install of the same game.
+ */
+function collectLocalGames(
+  params: Params,
+  scanned: LocalBackup[] = scanBackupDirs(params)
+): GameData[] {
+  const { Current: current, Superseded: superseded } =
+    selectCurrentBackups(scanned);
+  if (superseded.length) {
+    console.log(
+      `Ignoring ${superseded.length} superseded backup(s) with a lower build; run "prune" to review them.`
+    );
+  }
+
+  // games.json holds one entry per AppID. When backups of several branches
+  // exist, the default branch is tracked and the others are kept untouched.
+  const byAppId = new Map<number, LocalBackup>();
+  const otherBranches: LocalBackup[] = [];
+  for (const backup of [...current].sort(
+    (a, b) =>
+      Number((a.Branch ?? 'public') !== 'public') -
+        Number((b.Branch ?? 'public') !== 'public') ||
+      b.InstalledBuild - a.InstalledBuild
+  )) {
+    if (byAppId.has(backup.AppID)) {
+      otherBranches.push(backup);
+    } else {
+      byAppId.set(backup.AppID, backup);
+    }
+  }
+  const backups = Array.from(byAppId.values());
+  console.log('Local backups found:', backups.length);
+  for (const backup of otherBranches) {
+    console.log(
+      `  Not tracked: ${backup.Name} (AppID: ${backup.AppID}) build ${
+        backup.InstalledBuild
+      } on branch ${backup.Branch ?? 'public'}, another branch is tracked`
+    );
+  }
+
+  const backedUp = new Set(backups.map((b) => b.AppID));
+  const installs = getLibraryInstalls(params.SteamLibraries).filter(
+    (install) => !backedUp.has(install.AppID)
+  );
+  if (params.SteamLibraries.length) {
+    console.log('Library installs found:', installs.length);
+  }
+
+  return [...backups, ...installs].map(
+    ({ Files, ...backup }): GameData => backup
+  );
+}
+
+/**
+ * Merge local games into gamesData and return the ones that are new or
+ * whose installed build changed
+ */
+function applyLocalGames(
+  localGames: GameData[],
+  gamesData: GamesDataMap
+): GameData[] {
+  const changedGames: GameData[] = [];
+  for (const backup of localGames) {
+    const existing = gamesData[backup.AppID];
+    if (!existing) {
+      // New game
+      changedGames.push(backup);
+      gamesData[backup.AppID] = backup;
+      console.log(`  NEW: ${backup.Name} (AppID: ${backup.AppID})`);
+    } else if (
+      existing.InstalledBuild !== backup.InstalledBuild ||
+      existing.Branch !== backup.Branch ||
+      (existing.Source ?? 'backup') !== backup.Source ||
+      existing.BackupMissingSince != null
+    ) {
+      // Game backup has been updated (or now tracks a different branch)
+      changedGames.push(backup);
+      if (existing.Branch !== backup.Branch) {
+        // The stored latest build belongs to the old branch.
+        delete gamesData[backup.AppID].ChangeNumber;
+      }
+      gamesData[backup.AppID].Name = backup.Name;
+      gamesData[backup.AppID].InstalledBuild = backup.InstalledBuild;
+      gamesData[backup.AppID].Branch = backup.Branch;
+      gamesData[backup.AppID].Source = backup.Source;
+      delete gamesData[backup.AppID].BackupMissingSince;
+      console.log(
+        `  UPDATED: ${backup.Name} (AppID: ${backup.AppID}) - Build ${
+          existing.InstalledBuild
+        } -> ${backup.InstalledBuild}${
+          backup.Branch ? ` (branch: ${backup.Branch})` : ''
+        }`
+      );
+    } else {
+      // No change, but update name just in case and record where the copy
+      // is, which entries from before Source existed do not say
+      gamesData[backup.AppID].Name = backup.Name;
+      gamesData[backup.AppID].Source = backup.Source;
+    }
+  }
+  return changedGames;
+}
+
+/**
+ * Fetch Steam data for the given games, update gamesData in place and send
+ * webhook notifications. Returns one result row per game; `onChecked` sees
+ * each row as soon as it is done.
+ */
+async function checkGames(
+  gamesToCheck: GameData[],
+  gamesData: GamesDataMap,
+  params: Params,
+  onChecked?: (result: GameData) => void
+): Promise<GameData[]> {
+  const provider = getBuildInfoProvider(params);
+  const notifications: UpdateNotification[] = [];
+
+  console.log(`Processing with concurrency: ${params.MaxConcurrent}`);
+
+  // Apps are only skipped when there is a stored build to carry over.
+  const knownChangeNumbers = new Map<number, number>();
+  if (params.SkipUnchanged) {
+    for (const game of gamesToCheck) {
+      const stored = gamesData[game.AppID];
+      if (stored?.ChangeNumber != null && stored.LatestBuild != null) {
+        knownChangeNumbers.set(game.AppID, stored.ChangeNumber);
+      }
+    }
+  }
+
+  // One SteamCMD session covers every app; only review fetches run per game.
+  const latestBuilds = await provider.getLatestBuilds(
+    gamesToCheck.map((game) => game.AppID),
+    knownChangeNumbers
+  );
+
+  const results = await mapWithConcurrency(
+    gamesToCheck,
+    params.MaxConcurrent,
+    async (game) => {
+      console.log(`Processing game: ${game.Name} (AppID: ${game.AppID})`);
+
+      const build = latestBuilds.get(game.AppID);
+      const stored = gamesData[game.AppID];
+
+      // SteamDB-style rating (user review percent + counts). Unchanged apps
+      // keep their stored reviews until they are ReviewMaxAgeHours old.
+      const reviewsFresh =
+        build?.Unchanged &&
+        stored.ReviewsCheckedAt != null &&
+        Date.now() - Date.parse(stored.ReviewsCheckedAt) <
+          params.ReviewMaxAgeHours * 3600 * 1000;
+      const review = reviewsFresh
+        ? getStoredReviewSummary(stored)
+        : await provider.getReviewSummary(game.AppID);
+      if (!reviewsFresh && review.total != null) {
+        stored.ReviewsCheckedAt = new Date().toISOString();
+      }
+      // Recent reviews follow the lifetime ones: stored ones are not refetched.
+      const recentReview =
+        !reviewsFresh && params.RecentReviewDays > 0
+          ? await provider.getReviewSummary(game.AppID, params.RecentReviewDays)
+          : undefined;
+
+      // Store metadata is cached until it is StoreMaxAgeHours old.
+      const storeResult =
+        params.Enrich &&
+        isStoreMetadataDue(stored.Store, params.StoreMaxAgeHours)
+          ? await provider.getStoreMetadata(game.AppID)
+          : undefined;
+      if (storeResult?.metadata) stored.Store = storeResult.metadata;
+      if (build?.AppInfo) {
+        stored.InstallSize = getInstallSize(build.AppInfo) ?? undefined;
+      }
+
+      const fetchFailures = [
+        build?.Failure,
+        review.failure,
+        recentReview?.failure,
+        storeResult?.failure,
+      ].filter((f): f is FetchFailure => f != null);
+
+      const latestInfo = build?.Unchanged
+        ? toUnchangedBuildInfo(stored, review)
+        : toLatestBuildInfo(build, review, game.Branch);
+      if (build?.ChangeNumber != null) stored.ChangeNumber = build.ChangeNumber;
+      console.log(
+        `Steam result for ${game.Name}${
+          build?.Unchanged ? ' (unchanged)' : ''
+        }:`,
+        latestInfo
+      );
+
+      const latestBuild = latestInfo.BuildID;
+      const latestTimeUpdated = latestInfo.TimeUpdated;
+      const latestRatingPercent = latestInfo.RatingPercent;
+      const latestReviewsTotal = latestInfo.ReviewsTotal;
+      const latestReviewsPositive = latestInfo.ReviewsPositive;
+      const latestReviewsNegative = latestInfo.ReviewsNegative;
+      const latestReviewSummary = latestInfo.ReviewSummary;
+
+      const previous = {
+        LatestBuild: gamesData[game.AppID]?.LatestBuild,
+        InstalledBuild: gamesData[game.AppID]?.InstalledBuild,
+      };
+
+      let latestDate = '';
+      const prevBuild = gamesData[game.AppID]?.LatestBuild;
+      const prevDate = gamesData[game.AppID]?.LatestDate;
+
+      if (latestTimeUpdated) {
+        latestDate = new Date(latestTimeUpdated * 1000).toISOString();
+        gamesData[game.AppID].LatestDate = latestDate;
+      } else if (latestBuild !== prevBuild || !prevDate) {
+        latestDate = new Date().toISOString();
+        gamesData[game.AppID].LatestDate = latestDate;
+      } else {
+        latestDate = prevDate ?? '';
+      }
+
+      gamesData[game.AppID].LatestBuild =
+        latestBuild === null ? undefined : latestBuild;
+
+      gamesData[game.AppID].RatingPercent =
+        latestRatingPercent === null ? undefined : latestRatingPercent;
+      gamesData[game.AppID].ReviewsTotal =
+        latestReviewsTotal === null ? undefined : latestReviewsTotal;
+      gamesData[game.AppID].ReviewsPositive =
+        latestReviewsPositive === null ? undefined : latestReviewsPositive;
+      gamesData[game.AppID].ReviewsNegative =
+        latestReviewsNegative === null ? undefined : latestReviewsNegative;
+      gamesData[game.AppID].ReviewSummary =
+        latestReviewSummary === null ? undefined : latestReviewSummary;
+      gamesData[game.AppID].NewerBranches = latestInfo.NewerBranches.length
+        ? latestInfo.NewerBranches
+        : undefined;
+      if (recentReview) {
+        updateRatingTrend(
+          gamesData[game.AppID],
+          recentReview,
+          previous.LatestBuild,
+          params
+        );
+      }
+
+      recordHistory(gamesData[game.AppID], {
+        BuildID: latestBuild ?? undefined,
+        TimeUpdated: latestTimeUpdated ?? undefined,
+        RatingPercent: latestRatingPercent ?? undefined,
+        ReviewsTotal: latestReviewsTotal ?? undefined,
+        ReviewSummary: latestReviewSummary ?? undefined,
+      });
+
+      const status = getGameStatus(
+        { ...game, LatestBuild: latestBuild ?? undefined },
+        {
+          Removed: !build?.Unchanged && isRemovedApp(build?.AppInfo),
+          Failures: fetchFailures,
+        }
+      );
+      gamesData[game.AppID].Status = status;
+      gamesData[game.AppID].FetchFailures = fetchFailures.length
+        ? fetchFailures
+        : undefined;
+
+      const notification = detectNotification(previous, gamesData[game.AppID]);
+      if (notification) notifications.push(notification);
+
+      const result = {
+        Name: game.Name,
+        AppID: game.AppID,
+        InstalledBuild: game.InstalledBuild,
+        Branch: game.Branch,
+        Source: game.Source,
+        LatestBuild: latestBuild === null ? undefined : latestBuild,
+        LatestDate: latestDate,
+        RatingPercent:
+          latestRatingPercent === null ? undefined : latestRatingPercent,
+        ReviewsTotal:
+          latestReviewsTotal === null ? undefined : latestReviewsTotal,
+        ReviewsPositive:
+          latestReviewsPositive === null ? undefined : latestReviewsPositive,
+        ReviewsNegative:
+          latestReviewsNegative === null ? undefined : latestReviewsNegative,
+        ReviewSummary:
+          latestReviewSummary === null ? undefined : latestReviewSummary,
+        RecentRatingPercent: stored.RecentRatingPercent,
+        RecentReviewsTotal: stored.RecentReviewsTotal,
+        RecentRatingBeforeUpdate: stored.RecentRatingBeforeUpdate,
+        RatingChange: stored.RatingChange,
+        RatingChangeSinceUpdate: stored.RatingChangeSinceUpdate,
+        RatingAlert: stored.RatingAlert,
+        NewerBranches: latestInfo.NewerBranches.length
+          ? latestInfo.NewerBranches
+          : undefined,
+        InstallSize: stored.InstallSize,
+        Store: stored.Store,
+        Status: status,
+        FetchFailures: gamesData[game.AppID].FetchFailures,
+        History: gamesData[game.AppID].History,
+      } satisfies GameData;
+      onChecked?.(result);
+      return result;
+    }
+  );
+
+  console.log('Results:', results);
+
+  // Announce new updates; a failed send is logged and never fails the run.
+  if (params.Webhooks.length && notifications.length) {
+    const delivered = await sendNotifications(notifications, params.Webhooks);
+    for (const n of notifications) {
+      if (delivered.has(n.AppID)) {
+        gamesData[n.AppID].NotifiedBuild = n.LatestBuild;
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Write games.json, the selected reports and the Atom feed
+ */
+function writeOutputs(
+  params: Params,
+  results: GameData[],
+  gamesData: GamesDataMap,
+  dateNow: string,
+  runMode: string
+): void {
+  const dataFile = getDataFile(params.RepoPath, params.DataFile);
+  const feedFile = getFeedFile(params.RepoPath, params.FeedFile);
+
+  // Save updated games data
+  writeGamesData(dataFile, gamesData);
+  console.log('games.json updated.');
+
+  writeReports(
+    results,
+    {
+      GeneratedAt: dateNow,
+      RunMode: runMode,
+      HtmlTemplate: params.HtmlTemplate,
+    },
+    getReportOutputs(params),
+    feedFile
+  );
+
+  // The feed covers every tracked game, not just the ones checked this run.
+  generateAtomFeed(Object.values(gamesData), feedFile);
+  console.log('Atom feed generated:', feedFile);
+}
+
+/**
+ * Commit and push games.json, the reports and the feed. Throws PublishError
+ * when git fails or the push is rejected.
+ */
+function publishChanges(params: Params, dateNow: string): void {
+  const dataFile = getDataFile(params.RepoPath, params.DataFile);
+  console.log(
+    params.DryRun
+      ? 'Dry run: checking what would be published...'
+      : 'Committing and pushing changes...'
+  );
+  const result = publishFiles({
+    RepoPath: params.RepoPath,
+    DataFiles: [dataFile, getQuarantineFile(dataFile)],
+    ReportFiles: [
+      ...getReportOutputs(params).map((output) => output.Path),
+      getFeedFile(params.RepoPath, params.FeedFile),
+    ],
+    Message: `Update Steam backup report ${dateNow}`,
+    // Dry runs and runs with nothing to commit need no git identity.
+    Identity: () => ({
+      UserName: requireParam(params, 'GitUserName'),
+      UserEmail: requireParam(params, 'GitUserEmail'),
+    }),
+    ReportBranch: params.PublishBranch,
+    DryRun: params.DryRun,
+    GitConfig: getMergeDriverConfig(
+      isActionsMode(params) ? 'actions' : 'local'
+    ),
+  });
+  if (!params.DryRun && !result.Skipped) {
+    console.log(`Published to: ${result.Committed.join(', ')}`);
+  }
+}
+
+/**
+ * `run`: scan local backups (or all games in actions mode), check them
+ * against Steam, write the report and publish it
+ */
+export async function runCommand(params: Params): Promise<void> {
+  console.log('Starting Steam Backup Report...');
+  const isActions = isActionsMode(params);
+  console.log(`Run mode: ${params.Mode} (${isActions ? 'actions' : 'local'})`);
+
+  const gamesData: GamesDataMap = readGamesData(
+    getDataFile(params.RepoPath, params.DataFile),
+    true
+  );
+  console.log('Loaded gamesData keys:', Object.keys(gamesData));
+
+  let gamesToCheck: GameData[] = [];
+
+  if (isActions) {
+    // In GitHub Actions, check all games to generate a complete report
+    gamesToCheck = Object.values(gamesData);
+    console.log(`Games to check from games.json: ${gamesToCheck.length}`);
+  } else {
+    // Local mode: scan backups directory and any Steam libraries
+    const localGames = collectLocalGames(params);
+    gamesToCheck = applyLocalGames(localGames, gamesData);
+    console.log(
+      `Games to check (changed/new): ${gamesToCheck.length} of ${localGames.length}`
+    );
+  }
+
+  const results = await checkGames(gamesToCheck, gamesData, params);
+
+  const dateNow = formatReportDate(params.TimeZone);
+  const runMode = isActions ? 'GitHub Actions' : 'Local run';
+  writeOutputs(params, results, gamesData, dateNow, runMode);
+
+  // Git commit and push
+  if (process.env.GITHUB_TOKEN || !isActions) {
+    publishChanges(params, dateNow);
+  }
+
+  console.log('Steam Backup Report finished.');
+}
+
+/**
+ * `scan`: show what the local backups and libraries contain compared with
+ * games.json, without network access or writes
+ */
+export function scanCommand(params: Params): void {
+  const gamesData = readGamesData(
+    getDataFile(params.RepoPath, params.DataFile)
+  );
+  const localGames = collectLocalGames(params);
+  const changed = applyLocalGames(localGames, gamesData);
+
+  console.log(
+    `${changed.length} of ${localGames.length} local game(s) are new or changed; "run" or "check" would look them up on Steam.`
+  );
+}
+
+/**
+ * `check`: check the given AppIDs (or every game) against Steam
+ */
+export async function checkCommand(
+  params: Params,
+  appIds: number[]
+): Promise<void> {
+  const gamesData = readGamesData(
+    getDataFile(params.RepoPath, params.DataFile),
+    true
+  );
+
+  const unknown = appIds.filter((id) => !gamesData[id]);
+  if (unknown.length) {
+    throw new CliError(
+      `Not in games.json: ${unknown.join(', ')} (use "add" first)`,
+      'check'
+    );
+  }
+
+  const gamesToCheck = appIds.length
+    ? appIds.map((id) => gamesData[id])
+    : Object.values(gamesData);
+  console.log(`Games to check: ${gamesToCheck.length}`);
+
+  await checkGames(gamesToCheck, gamesData, params);
+
+  // Report on every game so a partial check still yields a full page.
+  writeOutputs(
+    params,
+    Object.values(gamesData).map((game) => ({
+      ...game,
+      Status: getCurrentStatus(game),
+    })),
+    gamesData,
+    formatReportDate(params.TimeZone),
+    'Check'
+  );
+}
+
+/**
+ * `report`: re-render the reports and feed from games.json
+ */
+export function reportCommand(params: Params): void {
+  const gamesData = readGamesData(
+    getDataFile(params.RepoPath, params.DataFile)
+  );
+  const feedFile = getFeedFile(params.RepoPath, params.FeedFile);
+
+  const results = Object.values(gamesData).map((game) => ({
+    ...game,
+    Status: getCurrentStatus(game),
+  }));
+  writeReports(
+    results,
+    {
+      GeneratedAt: formatReportDate(params.TimeZone),
+      RunMode: 'Report only',
+      HtmlTemplate: params.HtmlTemplate,
+    },
+    getReportOutputs(params),
+    feedFile
+  );
+  generateAtomFeed(Object.values(gamesData), feedFile);
+  console.log('Atom feed generated:', feedFile);
+}
+
+/**
+ * `serve`: host the report on localhost with a JSON API and live updates
+ * until interrupted. Checks started through the API update games.json
+ * only; `report` and `publish` still write and publish the static files.
+ */
+export async function serveCommand(params: Params): Promise<void> {
+  const dataFile = getDataFile(params.RepoPath, params.DataFile);
+  const feedFile = getFeedFile(params.RepoPath, params.FeedFile);
+  // Fail at startup, not on the first refresh, when Steam is not set up.
+  getBuildInfoProvider(params);
+
+  // games.json is only re-read after something else changed it.
+  let loaded: { mtimeMs: number; games: GamesDataMap } | undefined;
+  const loadGames = (): GamesDataMap => {
+    const mtimeMs = fs.existsSync(dataFile) ? fs.statSync(dataFile).mtimeMs : 0;
+    if (loaded?.mtimeMs !== mtimeMs) {
+      // Checks rewrite games.json, so rejected entries are kept aside.
+      loaded = { mtimeMs, games: readGamesData(dataFile, true) };
+    }
+    return loaded.games;
+  };
+  const withStatus = (game: GameData): GameData => ({
+    ...game,
+    Status: getCurrentStatus(game),
+  });
+  const listGames = () =>
+    Object.values(loadGames())
+      .map(withStatus)
+      .sort((a, b) => a.Name.localeCompare(b.Name));
+
+  const events = new ServerEvents();
+
+  // One check at a time, as each one writes games.json.
+  let running: string | undefined;
+  const claim = (label: string) => {
+    if (running) throw new HttpError(409, `${running} is already running`);
+    running = label;
+  };
+  const check = async (
+    label: string,
+    games: GameData[],
+    gamesData: GamesDataMap
+  ): Promise<void> => {
+    try {
+      const total = games.length;
+      let done = 0;
+      events.publish('check-started', { Label: label, Total: total });
+      const results = await checkGames(games, gamesData, params, (result) =>
+        events.publish('game', { Done: ++done, Total: total, Game: result })
+      );
+      writeGamesData(dataFile, gamesData);
+      events.publish('check-finished', {
+        Label: label,
+        Total: total,
+        Updates: results.filter((r) => r.Status?.Code === 'update-available')
+          .length,
+      });
+    } catch (error) {
+      events.publish('check-failed', {
+        Label: label,
+        Error: (error as Error).message,
+      });
+      throw error;
+    } finally {
+      running = undefined;
+    }
+  };
+
+  const server = await startReportServer(
+    {
+      renderReport: () =>
+        REPORT_RENDERERS.html.render(listGames(), {
+          GeneratedAt: formatReportDate(params.TimeZone),
+          RunMode: 'Served',
+          FeedHref: 'feed.xml',
+          HtmlTemplate: params.HtmlTemplate,
+          LiveEvents: '/api/events',
+        }),
+      readFeed: () =>
+        fs.existsSync(feedFile) ? fs.readFileSync(feedFile, 'utf-8') : null,
+      listGames,
+      refreshGame: async (appId) => {
+        const gamesData = loadGames();
+        const game = gamesData[appId];
+        if (!game) throw new HttpError(404, `AppID ${appId} is not tracked`);
+        const label = `Refresh of ${game.Name}`;
+        claim(label);
+        await check(label, [game], gamesData);
+        return withStatus(gamesData[appId]);
+      },
+      startCheck: () => {
+        claim('Full check');
+        const gamesData = loadGames();
+        check('Full check', Object.values(gamesData), gamesData).catch(
+          (error) => console.error('Full check failed:', error)
+        );
+      },
+    },
+    events,
+    params.ServeHost,
+    params.ServePort
+  );
+  console.log(
+    `Serving the report on http://${params.ServeHost}:${params.ServePort}/ (Ctrl+C to stop)`
+  );
+
+  await new Promise<void>((resolve) => {
+    const stop = () => {
+      console.log('Stopping the server...');
+      events.close();
+      server.close(() => resolve());
+      server.closeAllConnections();
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+  });
+}
+
+/**
+ * `watch`: check local games like a local `run` does, then keep watching
+ * the backup directories until interrupted. New and replaced archives are
+ * checked once they have finished being written; games whose local copy
+ * disappears are marked as having no local backup. Writes games.json and
+ * the reports after every change but does not publish.
+ */
+export async function watchCommand(params: Params): Promise<void> {
+  const dirs = getBackupDirs(params);
+  const notFound = dirs.filter((dir) => !fs.existsSync(dir));
+  if (notFound.length) {
+    throw new CliError(
+      `Backup directory not found: ${notFound.join(', ')}`,
+      'watch'
+    );
+  }
+  // Fail at startup, not on the first new backup, when Steam is not set up.
+  getBuildInfoProvider(params);
+
+  const gamesData = readGamesData(
+    getDataFile(params.RepoPath, params.DataFile),
+    true
+  );
+  const tracker = new BackupSettleTracker(params.WatchSettleMs);
+  // AppIDs with a local copy at the last pass, to notice deletions. Seeded
+  // with every game that has an installed build, so the first pass also
+  // notices copies deleted while nothing was watching.
+  let present = new Set(
+    Object.values(gamesData)
+      .filter((game) => game.InstalledBuild != null)
+      .map((game) => game.AppID)
+  );
+  let settleTimer: NodeJS.Timeout | undefined;
+
+  const scan = async (): Promise<void> => {
+    const { Settled, Writing } = tracker.split(scanBackupDirs(params));
+    // Leave apps alone until every archive of theirs is written.
+    const writing = new Set(Writing.map((b) => b.AppID));
+    if (Writing.length) {
+      console.log(
+        `Waiting for ${
+          Writing.length
+        } backup(s) to finish writing: ${Writing.map(
+          (b) => `${b.Name} (build ${b.InstalledBuild})`
+        ).join(', ')}`
+      );
+      clearTimeout(settleTimer);
+      settleTimer = setTimeout(trigger, params.WatchSettleMs);
+    }
+
+    const localGames = collectLocalGames(params, Settled).filter(
+      (game) => !writing.has(game.AppID)
+    );
+    const changed = applyLocalGames(localGames, gamesData);
+    const local = new Set([...localGames.map((g) => g.AppID), ...writing]);
+    const gone = [...present].filter(
+      (appId) =>
+        !local.has(appId) &&
+        gamesData[appId] &&
+        gamesData[appId].BackupMissingSince == null
+    );
+    present = local;
+
+    const now = new Date().toISOString();
+    for (const appId of gone) {
+      gamesData[appId].BackupMissingSince = now;
+      console.log(
+        `  GONE: ${gamesData[appId].Name} (AppID: ${appId}) - no local backup left`
+      );
+    }
+    if (!changed.length && !gone.length) {
+      console.log('No backup changes.');
+      return;
+    }
+
+    if (changed.length) await checkGames(changed, gamesData, params);
+    writeOutputs(
+      params,
+      Object.values(gamesData).map((game) => ({
+        ...game,
+        Status: getCurrentStatus(game),
+      })),
+      gamesData,
+      formatReportDate(params.TimeZone),
+      'Watch'
+    );
+  };
+
+  // One scan at a time; events during a scan queue exactly one more.
+  let running: Promise<void> | undefined;
+  let queued = false;
+  const trigger = () => {
+    if (running) {
+      queued = true;
+      return;
+    }
+    running = scan()
+      .catch((error) => console.error('Watch scan failed:', error))
+      .finally(() => {
+        running = undefined;
+        if (queued) {
+          queued = false;
+          trigger();
+        }
+      });
+  };
+
+  trigger();
+  const stopWatching = watchDirectories(dirs, params.WatchDebounceMs, trigger);
+  console.log(
+    `Watching ${dirs.join(', ')} for backup changes (Ctrl+C to stop)`
+  );
+
+  await new Promise<void>((resolve) => {
+    const stop = () => {
+      console.log('Stopping the watch...');
+      stopWatching();
+      clearTimeout(settleTimer);
+      queued = false;
+      Promise.resolve(running).then(() => resolve());
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+  });
+}
+
+/**
+ * `add`: start tracking a game
+ */
+export async function addCommand(params: Params, appId: number): Promise<void> {
+  const dataFile = getDataFile(params.RepoPath, params.DataFile);
+  const gamesData = readGamesData(dataFile, true);
+  if (gamesData[appId]) {
+    throw new CliError(
+      `AppID ${appId} is already tracked as "${gamesData[appId].Name}"`,
+      'add'
+    );
+  }
+
+  let name = params.Name;
+  if (!name && (params.SteamCmdPath || params.Provider === 'replay')) {
+    const info = (
+      await getBuildInfoProvider(params).getLatestBuilds([appId])
+    ).get(appId);
+    name = info?.AppInfo?.Name ?? undefined;
+  }
+  if (!name) {
+    throw new CliError(
+      'Could not determine the game name; pass --Name or --SteamCmdPath',
+      'add'
+    );
+  }
+
+  gamesData[appId] = {
+    Name: name,
+    AppID: appId,
+    ...(params.InstalledBuild != null
+      ? { InstalledBuild: params.InstalledBuild }
+      : {}),
+    ...(params.Branch ? { Branch: params.Branch } : {}),
+  };
+  writeGamesData(dataFile, gamesData);
+  console.log(`Added ${name} (AppID: ${appId}).`);
+}
+
+/**
+ * `remove`: stop tracking a game
+ */
+export function removeCommand(params: Params, appId: number): void {
+  const dataFile = getDataFile(params.RepoPath, params.DataFile);
+  const gamesData = readGamesData(dataFile, true);
+  const game = gamesData[appId];
+  if (!game) {
+    throw new CliError(`AppID ${appId} is not in games.json`, 'remove');
+  }
+
+  delete gamesData[appId];
+  writeGamesData(dataFile, gamesData);
+  console.log(`Removed ${game.Name} (AppID: ${appId}).`);
+}
+
+/**
+ * `list`: print the tracked games
+ */
+export function listCommand(params: Params): void {
+  const games = Object.values(
+    readGamesData(getDataFile(params.RepoPath, params.DataFile))
+  ).sort((a, b) => a.Name.localeCompare(b.Name));
+
+  const rows = games.map((game) => [
+    game.Name,
+    String(game.AppID),
+    game.Branch ?? 'public',
+    String(game.InstalledBuild ?? ''),
+    String(game.LatestBuild ?? ''),
+    formatStatus(getCurrentStatus(game)),
+  ]);
+  const header = ['Name', 'AppID', 'Branch', 'Installed', 'Latest', 'Status'];
+  const widths = header.map((h, i) =>
+    Math.max(h.length, ...rows.map((row) => row[i].length))
+  );
+  const format = (row: string[]) =>
+    row
+      .map((cell, i) => cell.padEnd(widths[i]))
+      .join('  ')
+      .trimEnd();
+
+  console.log(format(header));
+  for (const row of rows) console.log(format(row));
+  console.log(`${games.length} game(s)`);
+}
+
+/**
+ * `publish`: commit and push the current report files
+ */
+export function publishCommand(params: Params): void {
+  publishChanges(params, formatReportDate(params.TimeZone));
+}
+
+/**
+ * `merge-games`: merge <ours> and <theirs> against <base> and write the
+ * result to <ours>, as git expects from a merge driver. Throws
+ * GamesMergeError after writing when conflicts remain.
+ */
+export function mergeGamesCommand(params: Params, files: string[]): void {
+  const [baseFile, oursFile, theirsFile] = files;
+  const ours =
+    params.MergeOurs ?? (isActionsMode(params) ? 'actions' : 'local');
+  const theirs = params.MergeTheirs ?? (ours === 'local' ? 'actions' : 'local');
+
+  const result = mergeGamesData(
+    readMergeSide(baseFile),
+    readMergeSide(oursFile),
+    readMergeSide(theirsFile),
+    { Ours: ours, Theirs: theirs }
+  );
+  writeGamesData(oursFile, result.Games);
+
+  console.log(
+    `Merged games.json (ours: ${ours}, theirs: ${theirs}): ${
+      Object.keys(result.Games).length
+    } game(s)`
+  );
+  for (const note of result.Resolved) console.log(`  ${note}`);
+  if (result.Conflicts.length) {
+    throw new GamesMergeError(
+      [
+        `${result.Conflicts.length} games.json conflict(s) left for manual resolution:`,
+        ...result.Conflicts.map(
+          (c) =>
+            `  ${c.Name} (${c.AppID})${c.Field ? ` ${c.Field}` : ''}: ${
+              c.Message
+            }`
+        ),
+      ].join('\n')
+    );
+  }
+}
+
+/**
+ * `prune`: report superseded backups and, when confirmed, remove them
+ */
+export function pruneCommand(params: Params): void {
+  const backups = scanBackupDirs(params);
+  const plan = planPrune(backups);
+  logPrunePlan(plan);
+
+  if (!plan.Items.length) return;
+  if (!params.Confirm) {
+    console.log(
+      'Dry run: nothing was changed. Re-run with --Confirm to prune, optionally with --TrashDir <path> to move archives instead of deleting them.'
+    );
+    return;
+  }
+  executePrunePlan(plan, params.TrashDir);
+}
@@ -0,0 +1,382 @@
+/**
+ * Project configuration: defaults, steamversionchecker.config.json and
+ * environment overrides
+ *
+ * Precedence (lowest to highest): built-in defaults, config file,
+ * environment variables, command line options.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Params, ProviderKind, RunMode } from './types';
+import { parseWebhookTarget } from './utils/notifyUtils';
+import { parseReportOutput } from './utils/reportUtils';
+import {
+  DEFAULT_CIRCUIT_BREAKER_COOLDOWN_MS,
+  DEFAULT_CIRCUIT_BREAKER_THRESHOLD,
+  DEFAULT_RETRIES,
+  DEFAULT_RETRY_BASE_DELAY_MS,
+  DEFAULT_RETRY_MAX_DELAY_MS,
+  DEFAULT_STEAMCMD_RETRIES,
+} from './utils/retryUtils';
+
+export const DEFAULT_CONFIG_FILE = 'steamversionchecker.config.json';
+
+export class ConfigError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly problems: string[]
+  ) {
+    super(
+      `Invalid configuration in ${source}:\n${problems
+        .map((p) => `  - ${p}`)
+        .join('\n')}`
+    );
+    this.name = 'ConfigError';
+  }
+}
+
+type ConfigKey = Exclude<
+  keyof Params,
+  'Confirm' | 'Name' | 'InstalledBuild' | 'Branch'
+>;
+
+type SettingType = 'string' | 'integer' | 'boolean' | 'string[]';
+
+interface SettingSpec {
+  key: ConfigKey;
+  type: SettingType;
+  /** Environment variables, checked in order; the first set one wins */
+  env: string[];
+  /** Allowed values for string settings */
+  oneOf?: string[];
+  /** Bounds for integer settings */
+  min?: number;
+  max?: number;
+}
+
+const RUN_MODES: RunMode[] = ['auto', 'local', 'actions'];
+const PROVIDERS: ProviderKind[] = ['steamcmd', 'record', 'replay'];
+
+function envName(key: string): string {
+  return `STEAMVC_${key.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase()}`;
+}
+
+function setting(
+  key: ConfigKey,
+  type: SettingType,
+  extra: Partial<SettingSpec> = {}
+): SettingSpec {
+  return { key, type, ...extra, env: [envName(key), ...(extra.env ?? [])] };
+}
+
+const SETTINGS: SettingSpec[] = [
+  setting('SteamCmdPath', 'string'),
+  setting('Provider', 'string', { oneOf: PROVIDERS }),
+  setting('FixturesDir', 'string'),
+  setting('RepoPath', 'string'),
+  setting('BackupDir', 'string'),
+  setting('ExtraBackupDirs', 'string[]'),
+  setting('BackupPatterns', 'string[]'),
+  setting('BackupExtensions', 'string[]'),
+  setting('SteamLibraries', 'string[]'),
+  setting('GitUserName', 'string'),
+  setting('GitUserEmail', 'string'),
+  setting('PublishBranch', 'string'),
+  setting('DryRun', 'boolean'),
+  setting('Webhooks', 'string[]', { env: ['WEBHOOK_URLS'] }),
+  setting('Mode', 'string', { oneOf: RUN_MODES }),
+  setting('TimeZone', 'string'),
+  setting('ReportFile', 'string'),
+  setting('DataFile', 'string'),
+  setting('FeedFile', 'string'),
+  setting('Reports', 'string[]'),
+  setting('HtmlTemplate', 'string'),
+  setting('MaxConcurrent', 'integer', { min: 1, env: ['MAX_CONCURRENT'] }),
+  setting('SteamCmdTimeoutMs', 'integer', { min: 1000 }),
+  setting('HttpTimeoutMs', 'integer', { min: 1000 }),
+  setting('Retries', 'integer', { min: 0 }),
+  setting('SteamCmdRetries', 'integer', { min: 0 }),
+  setting('RetryBaseDelayMs', 'integer', { min: 0 }),
+  setting('RetryMaxDelayMs', 'integer', { min: 0 }),
+  setting('CircuitBreakerThreshold', 'integer', { min: 1 }),
+  setting('CircuitBreakerCooldownMs', 'integer', { min: 0 }),
+  setting('SkipUnchanged', 'boolean'),
+  setting('ReviewMaxAgeHours', 'integer', { min: 0 }),
+  setting('RecentReviewDays', 'integer', { min: 0, max: 365 }),
+  setting('RatingDropAlert', 'integer', { min: 1 }),
+  setting('RatingAlertMinReviews', 'integer', { min: 0 }),
+  setting('Enrich', 'boolean'),
+  setting('StoreMaxAgeHours', 'integer', { min: 0 }),
+  setting('WatchDebounceMs', 'integer', { min: 0 }),
+  setting('WatchSettleMs', 'integer', { min: 0 }),
+  setting('ServeHost', 'string'),
+  setting('ServePort', 'integer', { min: 1, max: 65535 }),
+  setting('RatingDebug', 'boolean', { env: ['STEAMCMD_RATING_DEBUG'] }),
+  setting('TrashDir', 'string'),
+];
+
+/**
+ * Built-in defaults for every setting
+ */
+export function defaultParams(): Params {
+  return {
+    BackupDir: '.',
+    ExtraBackupDirs: [],
+    Provider: 'steamcmd',
+    FixturesDir: 'fixtures',
+    RepoPath: '.',
+    DryRun: false,
+    Webhooks: [],
+    BackupPatterns: [],
+    BackupExtensions: [],
+    SteamLibraries: [],
+    Mode: 'auto',
+    TimeZone: 'Europe/Stockholm',
+    ReportFile: 'index.html',
+    DataFile: 'games.json',
+    FeedFile: 'feed.xml',
+    Reports: [{ Format: 'html' }],
+    MaxConcurrent: 4,
+    SteamCmdTimeoutMs: 60000,
+    HttpTimeoutMs: 15000,
+    Retries: DEFAULT_RETRIES,
+    SteamCmdRetries: DEFAULT_STEAMCMD_RETRIES,
+    RetryBaseDelayMs: DEFAULT_RETRY_BASE_DELAY_MS,
+    RetryMaxDelayMs: DEFAULT_RETRY_MAX_DELAY_MS,
+    CircuitBreakerThreshold: DEFAULT_CIRCUIT_BREAKER_THRESHOLD,
+    CircuitBreakerCooldownMs: DEFAULT_CIRCUIT_BREAKER_COOLDOWN_MS,
+    SkipUnchanged: true,
+    ReviewMaxAgeHours: 24,
+    RecentReviewDays: 30,
+    RatingDropAlert: 10,
+    RatingAlertMinReviews: 10,
+    Enrich: false,
+    StoreMaxAgeHours: 168,
+    WatchDebounceMs: 2000,
+    WatchSettleMs: 10000,
+    ServeHost: '127.0.0.1',
+    ServePort: 8080,
+    RatingDebug: false,
+    Confirm: false,
+  };
+}
+
+/**
+ * Replace `${VAR}` references in config strings with environment values
+ */
+function expandEnv(value: string, env: NodeJS.ProcessEnv): string {
+  return value.replace(/\$\{(\w+)\}/g, (_, name: string) => env[name] ?? '');
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate one raw value against its spec. Returns the converted value, or
+ * pushes a problem and returns undefined.
+ */
+function convertSetting(
+  spec: SettingSpec,
+  raw: unknown,
+  label: string,
+  problems: string[]
+): unknown {
+  const fail = (expected: string) => {
+    problems.push(`${label} must be ${expected} (got ${JSON.stringify(raw)})`);
+    return undefined;
+  };
+
+  switch (spec.type) {
+    case 'string':
+      if (typeof raw !== 'string' || !raw.trim()) {
+        return fail('a non-empty string');
+      }
+      if (spec.oneOf && !spec.oneOf.includes(raw)) {
+        return fail(`one of ${spec.oneOf.map((v) => `"${v}"`).join(', ')}`);
+      }
+      return raw;
+    case 'integer': {
+      const value = typeof raw === 'string' ? Number(raw.trim()) : raw;
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        return fail('an integer');
+      }
+      if (spec.min != null && value < spec.min) {
+        return fail(`at least ${spec.min}`);
+      }
+      if (spec.max != null && value > spec.max) {
+        return fail(`at most ${spec.max}`);
+      }
+      return value;
+    }
+    case 'boolean':
+      if (typeof raw === 'boolean') return raw;
+      if (typeof raw === 'string' && /^(1|true|yes)$/i.test(raw)) return true;
+      if (typeof raw === 'string' && /^(0|false|no|)$/i.test(raw)) return false;
+      return fail('a boolean');
+    case 'string[]': {
+      const list =
+        typeof raw === 'string'
+          ? raw
+              .split(/[,\n]/)
+              .map((v) => v.trim())
+              .filter(Boolean)
+          : raw;
+      if (
+        !Array.isArray(list) ||
+        !list.every((v) => typeof v === 'string' && v.trim())
+      ) {
+        return fail('a list of non-empty strings');
+      }
+      return list;
+    }
+  }
+}
+
+/**
+ * Convert validated raw settings into Params fields
+ */
+function applySettings(
+  raw: Record<string, unknown>,
+  labelFor: (spec: SettingSpec) => string,
+  problems: string[]
+): Partial<Params> {
+  const result: Record<string, unknown> = {};
+
+  for (const spec of SETTINGS) {
+    if (raw[spec.key] === undefined) continue;
+    const label = labelFor(spec);
+    const value = convertSetting(spec, raw[spec.key], label, problems);
+    if (value === undefined) continue;
+
+    if (spec.key === 'Webhooks') {
+      const targets = [];
+      for (const target of value as string[]) {
+        try {
+          targets.push(parseWebhookTarget(target));
+        } catch (e) {
+          problems.push(`${label}: ${(e as Error).message}`);
+        }
+      }
+      result.Webhooks = targets;
+    } else if (spec.key === 'Reports') {
+      const outputs = [];
+      for (const output of value as string[]) {
+        try {
+          outputs.push(parseReportOutput(output));
+        } catch (e) {
+          problems.push(`${label}: ${(e as Error).message}`);
+        }
+      }
+      result.Reports = outputs;
+    } else if (spec.key === 'TimeZone' && !isValidTimeZone(value as string)) {
+      problems.push(`${label} is not a known time zone: "${value}"`);
+    } else {
+      result[spec.key] = value;
+    }
+  }
+
+  return result as Partial<Params>;
+}
+
+/**
+ * Read and validate a config file
+ */
+export function loadConfigFile(
+  configFile: string,
+  env: NodeJS.ProcessEnv = process.env
+): Partial<Params> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configFile, 'utf-8'));
+  } catch (e) {
+    throw new ConfigError(configFile, [(e as Error).message]);
+  }
+  if (raw == null || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ConfigError(configFile, ['top level must be a JSON object']);
+  }
+
+  const problems: string[] = [];
+  const entries = Object.entries(raw as Record<string, unknown>).filter(
+    ([key]) => key !== '$schema'
+  );
+  for (const [key] of entries) {
+    if (!SETTINGS.some((s) => s.key === key)) {
+      problems.push(`unknown setting "${key}"`);
+    }
+  }
+
+  const expanded = Object.fromEntries(
+    entries.map(([key, value]) => [
+      key,
+      typeof value === 'string'
+        ? expandEnv(value, env)
+        : Array.isArray(value)
+        ? value.map((v) => (typeof v === 'string' ? expandEnv(v, env) : v))
+        : value,
+    ])
+  );
+
+  const result = applySettings(expanded, (s) => `"${s.key}"`, problems);
+  if (problems.length) throw new ConfigError(configFile, problems);
+  return result;
+}
+
+/**
+ * Read settings from environment variables
+ */
+export function readEnvOverrides(
+  env: NodeJS.ProcessEnv = process.env
+): Partial<Params> {
+  const raw: Record<string, unknown> = {};
+  const sources: Record<string, string> = {};
+
+  for (const spec of SETTINGS) {
+    const name = spec.env.find((n) => env[n] != null && env[n] !== '');
+    if (!name) continue;
+    raw[spec.key] = env[name];
+    sources[spec.key] = name;
+  }
+
+  const problems: string[] = [];
+  const result = applySettings(raw, (s) => sources[s.key], problems);
+  if (problems.length) throw new ConfigError('environment', problems);
+  return result;
+}
+
+/**
+ * Resolve defaults, the config file and the environment into Params. An
+ * explicitly given config file must exist; the default one is optional.
+ */
+export function resolveParams(
+  configFile?: string,
+  env: NodeJS.ProcessEnv = process.env
+): Params {
+  const explicit = configFile ?? env.STEAMVC_CONFIG;
+  const file = path.resolve(explicit ?? DEFAULT_CONFIG_FILE);
+
+  let fromFile: Partial<Params> = {};
+  if (fs.existsSync(file)) {
+    fromFile = loadConfigFile(file, env);
+    console.log(`Loaded configuration from ${file}`);
+  } else if (explicit) {
+    throw new ConfigError(file, ['file not found']);
+  }
+
+  return { ...defaultParams(), ...fromFile, ...readEnvOverrides(env) };
+}
+
+/**
+ * Whether games should be polled from games.json rather than scanned
+ * locally
+ */
+export function isActionsMode(params: Pick<Params, 'Mode'>): boolean {
+  if (params.Mode === 'auto') return process.env.GITHUB_ACTIONS === 'true';
+  return params.Mode === 'actions';
+}
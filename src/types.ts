@@ -2,18 +2,124 @@
  * Type definitions for Steam Backup Report
  */
 
+/**
+ * How games are selected for checking: `local` scans backups, `actions`
+ * polls every game in games.json, `auto` picks `actions` under GitHub
+ * Actions (GITHUB_ACTIONS=true) and `local` otherwise
+ */
+export type RunMode = 'auto' | 'local' | 'actions';
+
+/**
+ * Which kind of run produced one side of a games.json merge: `local` scans
+ * backups, `actions` polls Steam
+ */
+export type MergeSide = 'local' | 'actions';
+
+/**
+ * Where Steam data comes from: `steamcmd` asks Steam, `record` asks Steam
+ * and saves the raw answers as fixtures, `replay` reads saved fixtures
+ */
+export type ProviderKind = 'steamcmd' | 'record' | 'replay';
+
 export interface Params {
   BackupDir: string;
-  SteamCmdPath: string;
+  /** Further backup directories, scanned and watched like BackupDir */
+  ExtraBackupDirs: string[];
+  SteamCmdPath?: string;
+  Provider: ProviderKind;
+  /** Raw SteamCMD and appreviews answers per AppID, for record and replay */
+  FixturesDir: string;
   RepoPath: string;
-  GitUserName: string;
-  GitUserEmail: string;
+  GitUserName?: string;
+  GitUserEmail?: string;
+  /** Branch the reports and feed are published to (default: current branch) */
+  PublishBranch?: string;
+  /** Show what would be committed and pushed without touching git */
+  DryRun: boolean;
+  Webhooks: WebhookTarget[];
+  BackupPatterns: string[];
+  BackupExtensions: string[];
+  SteamLibraries: string[];
+  Mode: RunMode;
+  /** IANA time zone for the report timestamp */
+  TimeZone: string;
+  /** Output and data file names, relative to RepoPath */
+  ReportFile: string;
+  DataFile: string;
+  FeedFile: string;
+  /** Reports written by run, check and report */
+  Reports: ReportOutput[];
+  /** Custom HTML report template file */
+  HtmlTemplate?: string;
+  MaxConcurrent: number;
+  SteamCmdTimeoutMs: number;
+  HttpTimeoutMs: number;
+  /** Retries after a failed store request (reviews, store metadata) */
+  Retries: number;
+  /** Retries after a failed SteamCMD session, each of which may take minutes */
+  SteamCmdRetries: number;
+  /** Exponential backoff: first delay and cap, before jitter */
+  RetryBaseDelayMs: number;
+  RetryMaxDelayMs: number;
+  /** Consecutive failures before a Steam service is skipped for a while */
+  CircuitBreakerThreshold: number;
+  CircuitBreakerCooldownMs: number;
+  /** Skip parsing and review fetches for apps whose change number is unchanged */
+  SkipUnchanged: boolean;
+  /** Refresh reviews of unchanged apps once they are this old */
+  ReviewMaxAgeHours: number;
+  /** Day range of the recent review stats; 0 skips fetching them */
+  RecentReviewDays: number;
+  /** Drop of the recent rating since the last update, in points, that raises a rating alert */
+  RatingDropAlert: number;
+  /** Recent reviews needed before a drop raises a rating alert */
+  RatingAlertMinReviews: number;
+  /** Fetch store metadata (header image, release date, genres, ...) */
+  Enrich: boolean;
+  /** Refetch cached store metadata once it is this old */
+  StoreMaxAgeHours: number;
+  /** `watch`: quiet time after file events, and how long an archive must stay unchanged before it counts */
+  WatchDebounceMs: number;
+  WatchSettleMs: number;
+  /** Where `serve` listens */
+  ServeHost: string;
+  ServePort: number;
+  /** Extra HTTP/appreviews diagnostics */
+  RatingDebug: boolean;
+  Confirm: boolean;
+  TrashDir?: string;
+  /** `add` command fields */
+  Name?: string;
+  InstalledBuild?: number;
+  Branch?: string;
+  /** `merge-games` command fields */
+  MergeOurs?: MergeSide;
+  MergeTheirs?: MergeSide;
 }
 
+export type SteamOptions = Pick<
+  Params,
+  | 'SteamCmdTimeoutMs'
+  | 'HttpTimeoutMs'
+  | 'RatingDebug'
+  | 'Retries'
+  | 'SteamCmdRetries'
+  | 'RetryBaseDelayMs'
+  | 'RetryMaxDelayMs'
+  | 'CircuitBreakerThreshold'
+  | 'CircuitBreakerCooldownMs'
+>;
+
 export interface GameData {
   Name: string;
   AppID: number;
   InstalledBuild?: number;
+  /** Steam branch the backup was taken from; defaults to "public" */
+  Branch?: string;
+  /** Where InstalledBuild came from; absent means a backup archive */
+  Source?: GameSource;
+  /** ISO time `watch` saw the last local copy go; InstalledBuild is the build it had */
+  BackupMissingSince?: string;
   LatestBuild?: number;
   LatestDate?: string;
   RatingPercent?: number;
@@ -21,19 +127,256 @@ export interface GameData {
   ReviewsPositive?: number;
   ReviewsNegative?: number;
   ReviewSummary?: string;
-  Status?: string;
+  /** Rating and review count over the last RecentReviewDays days */
+  RecentRatingPercent?: number;
+  RecentReviewsTotal?: number;
+  /** Recent rating at the last check before LatestBuild changed */
+  RecentRatingBeforeUpdate?: number;
+  /** Change of the recent rating, in points, since the previous check */
+  RatingChange?: number;
+  /** Change of the recent rating, in points, since the last build change */
+  RatingChangeSinceUpdate?: number;
+  /** Why the recent rating is flagged, e.g. a sharp drop after an update */
+  RatingAlert?: string;
+  /** Other branches whose latest build is newer than the tracked branch */
+  NewerBranches?: string[];
+  /** Estimated download size in bytes: depot maxsize of the Windows install */
+  InstallSize?: number;
+  /** Cached store page metadata, fetched when enrichment is on */
+  Store?: StoreMetadata;
+  /** Result of the last check; renderers map the code to a label */
+  Status?: GameStatus;
+  /** Latest build already announced through webhooks */
+  NotifiedBuild?: number;
+  /** Bounded, oldest-first log of observed build and review changes */
+  History?: GameHistoryEntry[];
+  /** PICS change number seen at the last check */
+  ChangeNumber?: number;
+  /** ISO time the review fields were last fetched */
+  ReviewsCheckedAt?: string;
+  /** Why data was missing at the last check; absent when nothing failed */
+  FetchFailures?: FetchFailure[];
+}
+
+/**
+ * Why a Steam fetch failed:
+ * - `timeout`: no answer in time
+ * - `rate-limited`: HTTP 429 or SteamCMD rate limit
+ * - `parse-error`: the answer could not be read
+ * - `access-denied`: anonymous access cannot see the data (e.g. no depots)
+ * - `unavailable`: Steam answered with an error, or is skipped after
+ *   repeated failures
+ * - `network`: the connection failed
+ * - `not-installed`: SteamCMD is not at the configured path
+ */
+export type FetchFailureKind =
+  | 'timeout'
+  | 'rate-limited'
+  | 'parse-error'
+  | 'access-denied'
+  | 'unavailable'
+  | 'network'
+  | 'not-installed';
+
+export interface FetchFailure {
+  /** Which fetch failed */
+  Source: 'steamcmd' | 'reviews' | 'store';
+  Kind: FetchFailureKind;
+  Message: string;
+}
+
+export interface GameHistoryEntry {
+  /** ISO timestamp of the run that first observed this state */
+  FirstSeen: string;
+  BuildID?: number;
+  /** Steam `timeupdated` (unix seconds) of the observed build */
+  TimeUpdated?: number;
+  RatingPercent?: number;
+  ReviewsTotal?: number;
+  ReviewSummary?: string;
+}
+
+export type GameSource = 'backup' | 'library';
+
+export type StorePlatform = 'windows' | 'mac' | 'linux';
+
+/**
+ * Store page metadata from appdetails, as shown on the store
+ */
+export interface StoreMetadata {
+  HeaderImage?: string;
+  /** Release date as the store words it, e.g. "16 Nov, 2004" */
+  ReleaseDate?: string;
+  ComingSoon?: boolean;
+  Developers?: string[];
+  Publishers?: string[];
+  Genres?: string[];
+  Platforms?: StorePlatform[];
+  /** ISO time the metadata was fetched */
+  FetchedAt: string;
+}
+
+/**
+ * Status of a game after a check:
+ * - `up-to-date`: installed build matches the latest build
+ * - `update-available`: Steam has a newer build
+ * - `ahead`: installed build is newer than Steam's (e.g. a rolled-back release)
+ * - `build-unknown`: the installed or latest build is not known
+ * - `reviews-failed`: builds are fine but the review fetch failed
+ * - `removed`: Steam returned no store data or branches (removed or delisted)
+ * - `no-backup`: the local backup was deleted or renamed away
+ */
+export type GameStatusCode =
+  | 'up-to-date'
+  | 'update-available'
+  | 'ahead'
+  | 'build-unknown'
+  | 'reviews-failed'
+  | 'removed'
+  | 'no-backup';
+
+export interface GameStatus {
+  Code: GameStatusCode;
+  /** Why the game has this status, e.g. "build 12 is older than 15 on public" */
+  Reason: string;
 }
 
 export interface GamesDataMap {
   [appId: number]: GameData;
 }
 
+/**
+ * On-disk layout of games.json from schema version 2 on. Version 1 was the
+ * bare GamesDataMap.
+ */
+export interface GamesDataFile {
+  SchemaVersion: number;
+  Games: GamesDataMap;
+}
+
+/** An entry removed from games.json because it failed validation */
+export interface QuarantinedEntry {
+  /** Key the entry was stored under in games.json */
+  Key: string;
+  Entry: unknown;
+  Problems: string[];
+  QuarantinedAt: string;
+}
+
 export interface LatestBuildInfo {
   BuildID: number | null;
   TimeUpdated: number | null;
+  Branch: string;
+  NewerBranches: string[];
   RatingPercent: number | null;
   ReviewsTotal: number | null;
   ReviewsPositive: number | null;
   ReviewsNegative: number | null;
   ReviewSummary: string | null;
 }
+
+export type VdfValue = string | VdfObject;
+
+export interface VdfObject {
+  [key: string]: VdfValue;
+}
+
+export interface SteamBranchInfo {
+  BuildID: number | null;
+  TimeUpdated: number | null;
+  Description?: string;
+  PasswordRequired: boolean;
+}
+
+export interface SteamAppInfo {
+  AppID: number;
+  Name: string | null;
+  Type: string | null;
+  Branches: Record<string, SteamBranchInfo>;
+  /** PICS change number from the SteamCMD header line */
+  ChangeNumber: number | null;
+  Raw: VdfObject;
+}
+
+export interface SteamBuildInfo {
+  BuildID: number | null;
+  TimeUpdated: number | null;
+  AppInfo: SteamAppInfo | null;
+  ChangeNumber: number | null;
+  /**
+   * The change number matches the one already stored, so the app info was
+   * not parsed and BuildID/AppInfo are null
+   */
+  Unchanged?: boolean;
+  /** Why BuildID is missing */
+  Failure?: FetchFailure;
+}
+
+export type WebhookFormat = 'json' | 'discord' | 'slack';
+
+export interface WebhookTarget {
+  url: string;
+  format: WebhookFormat;
+}
+
+export type NotificationKind = 'update-available' | 'new-build';
+
+export interface UpdateNotification {
+  Kind: NotificationKind;
+  Name: string;
+  AppID: number;
+  Branch: string;
+  InstalledBuild?: number;
+  PreviousBuild?: number;
+  LatestBuild: number;
+  LatestDate?: string;
+}
+
+export interface BackupScanOptions {
+  /** Filename templates such as `{name}_{appid}_{build}` */
+  Patterns: string[];
+  /** Accepted extensions, e.g. `.7z`, `.zip`, `.rar`; `folder` for directories */
+  Extensions: string[];
+}
+
+export interface LocalBackup {
+  Name: string;
+  AppID: number;
+  InstalledBuild: number;
+  Branch?: string;
+  Source: GameSource;
+  /**
+   * Full paths of the archive, all of its volumes, or the folder; for
+   * library installs, the appmanifest file
+   */
+  Files: string[];
+}
+
+export interface BackupScanResult {
+  Backups: LocalBackup[];
+  /** Archive files whose names matched none of the patterns */
+  Unmatched: string[];
+  /** Entries that are not archives of an accepted type */
+  Ignored: number;
+}
+
+export type ReportFormat = 'html' | 'json' | 'csv' | 'markdown';
+
+/** One report to write; File is relative to RepoPath */
+export interface ReportOutput {
+  Format: ReportFormat;
+  File?: string;
+}
+
+/** Run metadata passed to every report renderer */
+export interface ReportMeta {
+  /** Display timestamp in the configured time zone */
+  GeneratedAt: string;
+  RunMode: string;
+  /** Link to the Atom feed relative to the report file */
+  FeedHref: string;
+  /** Custom HTML report template; the built-in layout when absent */
+  HtmlTemplate?: string;
+  /** Event stream the page follows for live updates, when served */
+  LiveEvents?: string;
+}
@@ -0,0 +1,67 @@
+/**
+ * CSV report for spreadsheets
+ */
+
+import { GameData, ReportMeta } from '../types';
+import { formatStatus } from './statusUtils';
+
+const CSV_COLUMNS: [string, (game: GameData) => string | number | undefined][] =
+  [
+    ['Name', (g) => g.Name],
+    ['AppID', (g) => g.AppID],
+    ['Branch', (g) => g.Branch ?? 'public'],
+    ['Source', (g) => g.Source ?? 'backup'],
+    ['InstalledBuild', (g) => g.InstalledBuild],
+    ['LatestBuild', (g) => g.LatestBuild],
+    ['LatestDate', (g) => g.LatestDate],
+    ['Status', (g) => formatStatus(g.Status)],
+    ['StatusCode', (g) => g.Status?.Code],
+    ['StatusReason', (g) => g.Status?.Reason],
+    ['RatingPercent', (g) => g.RatingPercent?.toFixed(2)],
+    ['ReviewsTotal', (g) => g.ReviewsTotal],
+    ['ReviewSummary', (g) => g.ReviewSummary],
+    ['RecentRatingPercent', (g) => g.RecentRatingPercent?.toFixed(2)],
+    ['RecentReviewsTotal', (g) => g.RecentReviewsTotal],
+    ['RatingChange', (g) => g.RatingChange],
+    ['RatingChangeSinceUpdate', (g) => g.RatingChangeSinceUpdate],
+    ['RatingAlert', (g) => g.RatingAlert],
+    ['NewerBranches', (g) => g.NewerBranches?.join(' ')],
+    ['InstallSize', (g) => g.InstallSize],
+    ['ReleaseDate', (g) => g.Store?.ReleaseDate],
+    ['Developers', (g) => g.Store?.Developers?.join('; ')],
+    ['Publishers', (g) => g.Store?.Publishers?.join('; ')],
+    ['Genres', (g) => g.Store?.Genres?.join('; ')],
+    ['Platforms', (g) => g.Store?.Platforms?.join(' ')],
+    ['HeaderImage', (g) => g.Store?.HeaderImage],
+  ];
+
+/**
+ * Quote a field per RFC 4180 when it contains a separator, quote or line
+ * break. Text that a spreadsheet would run as a formula (starting with `=`,
+ * `+`, `-`, `@`, a tab or a carriage return) gets a leading `'`; numbers are
+ * written as they are so negative values stay numeric.
+ */
+function csvField(value: string | number | undefined): string {
+  let text = value == null ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render the CSV report. Starts with a UTF-8 byte order mark so
+ * spreadsheet apps keep the status emoji intact.
+ */
+export function renderCsvReport(
+  sortedResults: GameData[],
+  _meta: ReportMeta
+): string {
+  const rows = [
+    CSV_COLUMNS.map(([header]) => header),
+    ...sortedResults.map((game) =>
+      CSV_COLUMNS.map(([, value]) => csvField(value(game)))
+    ),
+  ];
+  return `\uFEFF${rows.map((row) => row.join(',')).join('\r\n')}\r\n`;
+}
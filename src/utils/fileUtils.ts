@@ -4,90 +4,478 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { GamesDataMap, GameData } from '../types';
+import { getVdfNumber, getVdfObject, getVdfString, parseVdf } from './vdfUtils';
+import {
+  BackupScanOptions,
+  BackupScanResult,
+  GamesDataMap,
+  LocalBackup,
+  QuarantinedEntry,
+} from '../types';
+import {
+  GamesDataError,
+  GamesLoadResult,
+  loadGamesDocument,
+  toGamesDocument,
+} from './schemaUtils';
 
 /**
- * Check if running in GitHub Actions environment
+ * Get the path to the report HTML file
  */
-export function isGitHubActions(): boolean {
-  return process.env.GITHUB_ACTIONS === 'true';
+export function getReportFile(
+  repoPath: string,
+  fileName = 'index.html'
+): string {
+  return path.resolve(repoPath, fileName);
 }
 
 /**
- * Get the path to the report HTML file
+ * Get the path to the games JSON data file
  */
-export function getReportFile(repoPath: string): string {
-  return path.join(repoPath, 'index.html');
+export function getDataFile(repoPath: string, fileName = 'games.json'): string {
+  return path.resolve(repoPath, fileName);
 }
 
 /**
- * Get the path to the games JSON data file
+ * Get the path to the Atom feed of build changes
+ */
+export function getFeedFile(repoPath: string, fileName = 'feed.xml'): string {
+  return path.resolve(repoPath, fileName);
+}
+
+/**
+ * Get the path to the file holding entries rejected from the data file,
+ * e.g. games.quarantine.json next to games.json
+ */
+export function getQuarantineFile(dataFile: string): string {
+  const ext = path.extname(dataFile);
+  return path.join(
+    path.dirname(dataFile),
+    `${path.basename(dataFile, ext)}.quarantine${ext || '.json'}`
+  );
+}
+
+/**
+ * Add rejected entries to the quarantine file, keeping earlier ones.
+ * An entry that is already quarantined unchanged keeps its original time.
  */
-export function getDataFile(repoPath: string): string {
-  return path.join(repoPath, 'games.json');
+function quarantineEntries(
+  quarantineFile: string,
+  rejected: GamesLoadResult['Rejected']
+): void {
+  const existing: QuarantinedEntry[] = fs.existsSync(quarantineFile)
+    ? JSON.parse(fs.readFileSync(quarantineFile, 'utf-8'))
+    : [];
+  const now = new Date().toISOString();
+
+  for (const { Key, Entry, Problems } of rejected) {
+    const same = existing.find(
+      (q) => q.Key === Key && JSON.stringify(q.Entry) === JSON.stringify(Entry)
+    );
+    if (same) {
+      same.Problems = Problems;
+    } else {
+      existing.push({ Key, Entry, Problems, QuarantinedAt: now });
+    }
+  }
+  fs.writeFileSync(quarantineFile, JSON.stringify(existing, null, 2), 'utf-8');
 }
 
 /**
- * Read games data from JSON file
+ * Read games data from JSON file, upgrading older schema versions. Entries
+ * that fail validation are left out so a hand-edit mistake cannot break a
+ * run. Commands that rewrite games.json pass `quarantine` to copy them to
+ * the quarantine file first; read-only commands only list them.
  */
-export function readGamesData(dataFile: string): GamesDataMap {
-  if (fs.existsSync(dataFile)) {
-    const content = fs.readFileSync(dataFile, 'utf-8');
-    const data = JSON.parse(content);
-    console.log('Loaded games.json successfully');
-    return data;
-  } else {
+export function readGamesData(
+  dataFile: string,
+  quarantine = false
+): GamesDataMap {
+  if (!fs.existsSync(dataFile)) {
     console.log('No games.json found, starting with empty data');
     return {};
   }
+
+  let document: unknown;
+  try {
+    document = JSON.parse(fs.readFileSync(dataFile, 'utf-8'));
+  } catch (e) {
+    throw new GamesDataError(
+      `${dataFile} is not valid JSON: ${(e as Error).message}`
+    );
+  }
+
+  const result = loadGamesDocument(document);
+  if (result.Migrations.length) {
+    console.log(
+      `Migrated games.json from schema version ${result.FromVersion} (saved on next write):`
+    );
+    for (const step of result.Migrations) console.log(`  ${step}`);
+  }
+  for (const { Key, Fields } of result.Dropped) {
+    console.log(`games.json entry ${Key}: dropped ${Fields.join(', ')}`);
+  }
+  if (result.Rejected.length) {
+    const quarantineFile = getQuarantineFile(dataFile);
+    const entries = `${result.Rejected.length} invalid games.json entr${
+      result.Rejected.length === 1 ? 'y' : 'ies'
+    }`;
+    console.log(
+      quarantine
+        ? `Quarantined ${entries} to ${quarantineFile}:`
+        : `Skipping ${entries} (quarantined on the next write):`
+    );
+    for (const { Key, Problems } of result.Rejected) {
+      console.log(`  "${Key}": ${Problems.join('; ')}`);
+    }
+    if (quarantine) quarantineEntries(quarantineFile, result.Rejected);
+  }
+
+  console.log('Loaded games.json successfully');
+  return result.Games;
 }
 
 /**
- * Write games data to JSON file
+ * Write games data to JSON file at the current schema version
  */
 export function writeGamesData(
   dataFile: string,
   gamesData: GamesDataMap
 ): void {
-  // Sort gamesData by Name before writing
-  const sortedEntries = Object.entries(gamesData).sort(([, a], [, b]) =>
-    a.Name.localeCompare(b.Name)
+  fs.writeFileSync(
+    dataFile,
+    JSON.stringify(toGamesDocument(gamesData), null, 2),
+    'utf-8'
   );
-  const sortedGamesData = Object.fromEntries(sortedEntries);
-  fs.writeFileSync(dataFile, JSON.stringify(sortedGamesData, null, 2), 'utf-8');
 }
 
 /**
- * Get local backups from directory by scanning .7z files
+ * Size in binary units, e.g. "12.4 GB"; empty when unknown
  */
-export function getLocalBackups(backupDir: string): GameData[] {
-  const backups: GameData[] = [];
+export function formatBytes(bytes?: number): string {
+  if (bytes == null) return '';
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+/**
+ * Filename templates tried in order. `{branch}` marks the Steam branch the
+ * backup was taken from (`Name_AppID_BuildID_Branch.7z`).
+ */
+export const DEFAULT_BACKUP_PATTERNS = [
+  '{name}_{appid}_{build}_{branch}',
+  '{name}_{appid}_{build}',
+];
+
+/** Accepted archive extensions; `folder` accepts plain directories */
+export const DEFAULT_BACKUP_EXTENSIONS = ['.7z'];
+
+const PLACEHOLDER_PATTERNS: Record<string, string> = {
+  name: '(?<name>.+)',
+  appid: '(?<appid>\\d+)',
+  build: '(?<build>\\d+)',
+  branch: '(?<branch>[A-Za-z][\\w.-]*)',
+};
+
+/**
+ * Compile a filename template such as `{name} [{appid}] ({build})` into an
+ * anchored regular expression with named groups
+ */
+export function compileBackupPattern(template: string): RegExp {
+  let source = '';
+  let lastIndex = 0;
+  const seen = new Set<string>();
+
+  for (const match of template.matchAll(/\{(\w+)\}/g)) {
+    const key = match[1].toLowerCase();
+    const placeholder = PLACEHOLDER_PATTERNS[key];
+    if (!placeholder) {
+      throw new Error(
+        `Unknown placeholder {${match[1]}} in backup pattern "${template}"`
+      );
+    }
+    if (seen.has(key)) {
+      throw new Error(
+        `Placeholder {${key}} used twice in backup pattern "${template}"`
+      );
+    }
+    seen.add(key);
+    source += escapeRegExp(template.substring(lastIndex, match.index));
+    source += placeholder;
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+  source += escapeRegExp(template.substring(lastIndex));
+
+  for (const required of ['name', 'appid', 'build']) {
+    if (!seen.has(required)) {
+      throw new Error(
+        `Backup pattern "${template}" is missing the {${required}} placeholder`
+      );
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Split an archive filename into its base name and volume number. Handles
+ * single files (`x.7z`), numbered volumes (`x.7z.001`) and RAR parts
+ * (`x.part1.rar`).
+ */
+function splitArchiveName(
+  file: string,
+  extensions: string[]
+): { base: string; volume: number | null } | null {
+  const lower = file.toLowerCase();
+  // Longest extension first so ".tar.gz" wins over ".gz".
+  const sorted = [...extensions].sort((a, b) => b.length - a.length);
+
+  for (const ext of sorted) {
+    const e = ext.toLowerCase();
+    if (lower.endsWith(e)) {
+      const base = file.substring(0, file.length - ext.length);
+      const part = base.match(/^(.*)\.part(\d+)$/i);
+      if (part && e === '.rar') {
+        return { base: part[1], volume: parseInt(part[2], 10) };
+      }
+      return { base, volume: null };
+    }
+    const volume = lower.match(/\.(\d{3})$/);
+    if (volume && lower.slice(0, -4).endsWith(e)) {
+      return {
+        base: file.substring(0, file.length - 4 - ext.length),
+        volume: parseInt(volume[1], 10),
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Scan a directory for backups. Multi-volume archives are grouped into a
+ * single backup, and archives whose names match none of the patterns are
+ * returned in `Unmatched` rather than being skipped silently.
+ */
+export function scanLocalBackups(
+  backupDir: string,
+  options: Partial<BackupScanOptions> = {}
+): BackupScanResult {
+  const result: BackupScanResult = { Backups: [], Unmatched: [], Ignored: 0 };
 
   if (!fs.existsSync(backupDir)) {
     console.log(`Backup directory not found: ${backupDir}`);
-    return backups;
+    return result;
+  }
+
+  const patterns = (
+    options.Patterns?.length ? options.Patterns : DEFAULT_BACKUP_PATTERNS
+  ).map(compileBackupPattern);
+  const extensions = options.Extensions?.length
+    ? options.Extensions
+    : DEFAULT_BACKUP_EXTENSIONS;
+  const archiveExtensions = extensions.filter((e) => e !== 'folder');
+  const includeFolders = extensions.includes('folder');
+
+  // Group entries by base name first so split volumes become one backup.
+  const groups = new Map<string, string[]>();
+  for (const entry of fs.readdirSync(backupDir, { withFileTypes: true })) {
+    let base: string | null = null;
+    if (entry.isDirectory()) {
+      if (includeFolders) base = entry.name;
+    } else if (entry.isFile()) {
+      base = splitArchiveName(entry.name, archiveExtensions)?.base ?? null;
+    }
+
+    if (base == null) {
+      result.Ignored++;
+      continue;
+    }
+    const files = groups.get(base) ?? [];
+    files.push(path.join(backupDir, entry.name));
+    groups.set(base, files);
+  }
+
+  for (const [base, files] of groups) {
+    const match = patterns
+      .map((pattern) => pattern.exec(base))
+      .find((m) => m != null);
+    const fields = match?.groups;
+    if (!fields) {
+      result.Unmatched.push(...files.map((f) => path.basename(f)));
+      continue;
+    }
+
+    result.Backups.push({
+      Name: fields.name,
+      AppID: parseInt(fields.appid, 10),
+      InstalledBuild: parseInt(fields.build, 10),
+      ...(fields.branch ? { Branch: fields.branch } : {}),
+      Source: 'backup',
+      Files: files.sort(),
+    });
   }
 
-  const files = fs.readdirSync(backupDir);
+  return result;
+}
+
+/**
+ * Get local backups from directory, logging any archives whose names did
+ * not match a backup pattern.
+ */
+export function getLocalBackups(
+  backupDir: string,
+  options: Partial<BackupScanOptions> = {}
+): LocalBackup[] {
+  const { Backups, Unmatched } = scanLocalBackups(backupDir, options);
+  if (Unmatched.length) {
+    console.log(
+      `Skipped ${Unmatched.length} archive(s) not matching any backup pattern:`
+    );
+    for (const file of Unmatched) console.log(`  ${file}`);
+  }
+  return Backups;
+}
+
+/**
+ * Resolve several backups of the same AppID and branch: the highest build is
+ * the current one, the rest are superseded. Backups without a branch belong
+ * to the default branch, so a beta backup never supersedes a public one.
+ * Ties keep the first by file name so the outcome never depends on
+ * directory order.
+ */
+export function selectCurrentBackups(backups: LocalBackup[]): {
+  Current: LocalBackup[];
+  Superseded: { Backup: LocalBackup; SupersededBy: LocalBackup }[];
+} {
+  const byAppBranch = new Map<string, LocalBackup[]>();
+  for (const backup of backups) {
+    const key = `${backup.AppID}:${backup.Branch ?? 'public'}`;
+    const list = byAppBranch.get(key) ?? [];
+    list.push(backup);
+    byAppBranch.set(key, list);
+  }
+
+  const current: LocalBackup[] = [];
+  const superseded: { Backup: LocalBackup; SupersededBy: LocalBackup }[] = [];
+  for (const list of byAppBranch.values()) {
+    const [best, ...rest] = [...list].sort(
+      (a, b) =>
+        b.InstalledBuild - a.InstalledBuild ||
+        (a.Files[0] ?? '').localeCompare(b.Files[0] ?? '')
+    );
+    current.push(best);
+    for (const backup of rest) {
+      superseded.push({ Backup: backup, SupersededBy: best });
+    }
+  }
+
+  return { Current: current, Superseded: superseded };
+}
+
+/** appmanifest StateFlags bit set once a game is fully installed */
+const STATE_FLAG_FULLY_INSTALLED = 4;
+
+function resolveSteamAppsDir(libraryDir: string): string {
+  return path.basename(libraryDir).toLowerCase() === 'steamapps'
+    ? libraryDir
+    : path.join(libraryDir, 'steamapps');
+}
+
+/**
+ * Expand the given Steam library folders with every library listed in their
+ * libraryfolders.vdf, returning de-duplicated steamapps directories
+ */
+export function findSteamLibraries(libraryDirs: string[]): string[] {
+  const found = new Map<string, string>();
+
+  for (const dir of libraryDirs) {
+    const steamApps = resolveSteamAppsDir(dir);
+    found.set(path.resolve(steamApps).toLowerCase(), steamApps);
+
+    const foldersFile = path.join(steamApps, 'libraryfolders.vdf');
+    if (!fs.existsSync(foldersFile)) continue;
+
+    try {
+      const folders = getVdfObject(
+        parseVdf(fs.readFileSync(foldersFile, 'utf-8')),
+        'libraryfolders'
+      );
+      for (const [key, value] of Object.entries(folders ?? {})) {
+        if (!/^\d+$/.test(key)) continue;
+        // Newer files nest { "path" "..." }, older ones map index -> path.
+        const libraryPath =
+          typeof value === 'string' ? value : getVdfString(value, 'path');
+        if (!libraryPath) continue;
+        const extra = resolveSteamAppsDir(libraryPath);
+        found.set(path.resolve(extra).toLowerCase(), extra);
+      }
+    } catch (e) {
+      console.log(`Failed to read ${foldersFile}:`, e);
+    }
+  }
+
+  return Array.from(found.values());
+}
+
+/**
+ * Get installed games from Steam library appmanifest_<appid>.acf files
+ */
+export function getLibraryInstalls(libraryDirs: string[]): LocalBackup[] {
+  const installs: LocalBackup[] = [];
+
+  for (const steamApps of findSteamLibraries(libraryDirs)) {
+    if (!fs.existsSync(steamApps)) {
+      console.log(`Steam library not found: ${steamApps}`);
+      continue;
+    }
+
+    for (const file of fs.readdirSync(steamApps)) {
+      if (!/^appmanifest_\d+\.acf$/i.test(file)) continue;
+      const manifestFile = path.join(steamApps, file);
 
-  for (const file of files) {
-    if (file.endsWith('.7z')) {
-      const baseName = file.replace('.7z', '');
-      const parts = baseName.split('_');
+      try {
+        const manifest = parseVdf(fs.readFileSync(manifestFile, 'utf-8'));
+        const appId = getVdfNumber(manifest, 'AppState.appid');
+        const buildId = getVdfNumber(manifest, 'AppState.buildid');
+        const name = getVdfString(manifest, 'AppState.name');
+        const stateFlags = getVdfNumber(manifest, 'AppState.StateFlags') ?? 0;
+        const betaKey =
+          getVdfString(manifest, 'AppState.UserConfig.BetaKey') ||
+          getVdfString(manifest, 'AppState.MountedConfig.BetaKey');
 
-      if (parts.length >= 3) {
-        const buildId = parts[parts.length - 1];
-        const appId = parts[parts.length - 2];
-        const name = parts.slice(0, parts.length - 2).join('_');
+        if (appId == null || buildId == null || !name) {
+          console.log(`Skipping incomplete manifest: ${manifestFile}`);
+          continue;
+        }
+        if ((stateFlags & STATE_FLAG_FULLY_INSTALLED) === 0) {
+          console.log(
+            `Skipping ${name} (AppID: ${appId}): not fully installed (StateFlags ${stateFlags})`
+          );
+          continue;
+        }
 
-        backups.push({
+        installs.push({
           Name: name,
-          AppID: parseInt(appId, 10),
-          InstalledBuild: parseInt(buildId, 10),
+          AppID: appId,
+          InstalledBuild: buildId,
+          ...(betaKey && betaKey !== 'public' ? { Branch: betaKey } : {}),
+          Source: 'library',
+          Files: [manifestFile],
         });
+      } catch (e) {
+        console.log(`Failed to read ${manifestFile}:`, e);
       }
     }
   }
 
-  return backups;
+  return installs;
 }
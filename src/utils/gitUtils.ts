@@ -0,0 +1,344 @@
+/**
+ * Publishing report files with git: safe argument passing, no-op
+ * detection, dry runs and an optional separate report branch
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export type PublishErrorKind = 'git-failed' | 'conflict' | 'push-rejected';
+
+export class PublishError extends Error {
+  constructor(message: string, public readonly kind: PublishErrorKind) {
+    super(message);
+    this.name = 'PublishError';
+  }
+}
+
+export interface GitIdentity {
+  UserName: string;
+  UserEmail: string;
+}
+
+export interface PublishOptions {
+  RepoPath: string;
+  /** Data files (games.json), committed on the current branch */
+  DataFiles: string[];
+  /** Generated reports and feed; go to ReportBranch when it is set */
+  ReportFiles: string[];
+  Message: string;
+  /** Commit identity; only asked for once a commit or merge is made */
+  Identity: () => GitIdentity;
+  /** Branch for the report files, e.g. gh-pages */
+  ReportBranch?: string;
+  DryRun?: boolean;
+  Remote?: string;
+  /** Extra git config for commits and merges, e.g. a merge driver */
+  GitConfig?: Record<string, string>;
+}
+
+export interface PublishResult {
+  /** Commits made (or, in a dry run, that would be made), by branch */
+  Committed: string[];
+  Skipped: boolean;
+}
+
+/**
+ * Run git with an argument list (no shell), returning trimmed stdout.
+ * `config` is passed as `-c key=value` for this command only.
+ */
+function git(
+  cwd: string,
+  args: string[],
+  config: Record<string, string> = {}
+): string {
+  const configArgs = Object.entries(config).flatMap(([key, value]) => [
+    '-c',
+    `${key}=${value}`,
+  ]);
+  try {
+    return execFileSync('git', [...configArgs, ...args], {
+      cwd,
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'pipe'],
+    }).trim();
+  } catch (error: unknown) {
+    const stderr =
+      error instanceof Error && 'stderr' in error
+        ? String(error.stderr ?? '').trim()
+        : '';
+    throw new PublishError(
+      `git ${args.join(' ')} failed${stderr ? `: ${stderr}` : ''}`,
+      'git-failed'
+    );
+  }
+}
+
+function gitSucceeds(cwd: string, args: string[]): boolean {
+  try {
+    git(cwd, args);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Timestamps such as 2024-01-31 12:00:00 or 2024-01-31T12:00:00.000Z */
+const TIMESTAMP_PATTERN = /\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(?:\.\d+)?Z?/g;
+
+/**
+ * Whether the staged change to a generated file is more than a new
+ * "generated at" timestamp
+ */
+function hasContentChange(cwd: string, file: string): boolean {
+  const diff = git(cwd, ['diff', '--cached', '--unified=0', '--', file]);
+  const removed: string[] = [];
+  const added: string[] = [];
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('---') || line.startsWith('+++')) continue;
+    const normalized = line.substring(1).replace(TIMESTAMP_PATTERN, '<time>');
+    if (line.startsWith('-')) removed.push(normalized);
+    else if (line.startsWith('+')) added.push(normalized);
+  }
+  removed.sort();
+  added.sort();
+  return removed.join('\n') !== added.join('\n');
+}
+
+/**
+ * Stage the files and decide whether they are worth a commit. Data files
+ * count on any change; generated files only when more than their timestamp
+ * changed.
+ */
+function stageChanges(
+  cwd: string,
+  dataFiles: string[],
+  reportFiles: string[]
+): boolean {
+  const files = [...dataFiles, ...reportFiles].filter((f) =>
+    fs.existsSync(path.resolve(cwd, f))
+  );
+  if (!files.length) return false;
+  git(cwd, ['add', '--', ...files]);
+
+  const staged = git(cwd, ['diff', '--cached', '--name-only', '--', ...files])
+    .split('\n')
+    .filter(Boolean);
+  if (!staged.length) return false;
+
+  const isData = (f: string) =>
+    dataFiles.some((d) => path.resolve(cwd, d) === path.resolve(cwd, f));
+  return (
+    staged.some(isData) ||
+    staged.some((f) => !isData(f) && hasContentChange(cwd, f))
+  );
+}
+
+/**
+ * Commit identity and extra config (such as the games.json merge driver)
+ * for commits and merges made while publishing
+ */
+function commitConfig(options: PublishOptions): Record<string, string> {
+  const { UserName, UserEmail } = options.Identity();
+  return {
+    'user.name': UserName,
+    'user.email': UserEmail,
+    ...options.GitConfig,
+  };
+}
+
+/**
+ * Push the current branch; when the remote moved on, merge it in once and
+ * retry. Merging (rather than rebasing) keeps "ours" as this run's side for
+ * the games.json merge driver. A conflicting merge is aborted and reported,
+ * never resolved by discarding either side.
+ */
+function pushWithPull(
+  cwd: string,
+  options: PublishOptions,
+  refspec: string[]
+): void {
+  const remote = options.Remote ?? 'origin';
+  if (gitSucceeds(cwd, ['push', remote, ...refspec])) return;
+
+  console.log('Push rejected, merging the remote branch and retrying...');
+  const upstream = refspec.length
+    ? refspec[0].split(':refs/heads/')[1]
+    : git(cwd, ['rev-parse', '--abbrev-ref', 'HEAD']);
+  try {
+    git(
+      cwd,
+      ['pull', '--no-rebase', '--no-edit', remote, upstream],
+      commitConfig(options)
+    );
+  } catch (error) {
+    gitSucceeds(cwd, ['merge', '--abort']);
+    throw new PublishError(
+      `Could not merge ${remote}/${upstream}; the remote has conflicting changes. Resolve them manually and publish again.\n${
+        (error as Error).message
+      }`,
+      'conflict'
+    );
+  }
+  try {
+    git(cwd, ['push', remote, ...refspec]);
+  } catch (error) {
+    throw new PublishError(
+      `Push to ${remote}/${upstream} was rejected: ${(error as Error).message}`,
+      'push-rejected'
+    );
+  }
+}
+
+/**
+ * Commit and push files on the current branch
+ */
+function publishOnCurrentBranch(
+  options: PublishOptions,
+  dataFiles: string[],
+  reportFiles: string[]
+): boolean {
+  const cwd = options.RepoPath;
+  const files = [...dataFiles, ...reportFiles];
+
+  if (options.DryRun) {
+    const status = git(cwd, ['status', '--porcelain', '--', ...files]);
+    console.log(
+      status
+        ? `[dry run] Would commit on the current branch:\n${status}`
+        : '[dry run] No changes on the current branch'
+    );
+    return status !== '';
+  }
+
+  if (!stageChanges(cwd, dataFiles, reportFiles)) {
+    git(cwd, ['reset', '--quiet', '--', ...files]);
+    console.log('No changes to publish on the current branch.');
+    return false;
+  }
+
+  git(
+    cwd,
+    ['commit', '--quiet', '-m', options.Message, '--', ...files],
+    commitConfig(options)
+  );
+  pushWithPull(cwd, options, []);
+  return true;
+}
+
+/**
+ * Commit the report files to a separate branch through a temporary
+ * worktree, creating the branch when it does not exist yet
+ */
+function publishToReportBranch(
+  options: PublishOptions,
+  reportFiles: string[]
+): boolean {
+  const cwd = options.RepoPath;
+  const remote = options.Remote ?? 'origin';
+  const branch = options.ReportBranch as string;
+
+  if (options.DryRun) {
+    console.log(
+      `[dry run] Would publish to branch ${branch}: ${reportFiles.join(', ')}`
+    );
+    return reportFiles.length > 0;
+  }
+
+  const worktree = fs.mkdtempSync(path.join(os.tmpdir(), 'svc-publish-'));
+  try {
+    const hasRemote = gitSucceeds(cwd, ['fetch', '--quiet', remote, branch]);
+    if (hasRemote) {
+      git(cwd, [
+        'worktree',
+        'add',
+        '--quiet',
+        '--force',
+        '--detach',
+        worktree,
+        'FETCH_HEAD',
+      ]);
+    } else {
+      console.log(`Branch ${branch} not found on ${remote}, creating it.`);
+      git(cwd, ['worktree', 'add', '--quiet', '--force', '--detach', worktree]);
+      git(worktree, [
+        'checkout',
+        '--quiet',
+        '--orphan',
+        `svc-publish-${branch}`,
+      ]);
+      git(worktree, [
+        'rm',
+        '-r',
+        '--quiet',
+        '--cached',
+        '--ignore-unmatch',
+        '.',
+      ]);
+      git(worktree, ['clean', '-fdq']);
+    }
+
+    for (const file of reportFiles) {
+      const target = path.join(worktree, file);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.copyFileSync(path.resolve(cwd, file), target);
+    }
+
+    if (!stageChanges(worktree, [], reportFiles)) {
+      console.log(`No report changes to publish to ${branch}.`);
+      return false;
+    }
+    git(
+      worktree,
+      ['commit', '--quiet', '-m', options.Message],
+      commitConfig(options)
+    );
+    pushWithPull(worktree, options, [`HEAD:refs/heads/${branch}`]);
+    return true;
+  } finally {
+    gitSucceeds(cwd, ['worktree', 'remove', '--force', worktree]);
+    fs.rmSync(worktree, { recursive: true, force: true });
+    gitSucceeds(cwd, ['branch', '-D', `svc-publish-${branch}`]);
+  }
+}
+
+/**
+ * Commit and push the data and report files. Skips the commit when nothing
+ * but generation timestamps changed. Throws PublishError when git fails or
+ * the push is rejected.
+ */
+export function publishFiles(options: PublishOptions): PublishResult {
+  const cwd = options.RepoPath;
+  if (!gitSucceeds(cwd, ['rev-parse', '--is-inside-work-tree'])) {
+    throw new PublishError(`${cwd} is not a git repository`, 'git-failed');
+  }
+
+  // Paths relative to the repository root, so they also work in a worktree
+  const root = git(cwd, ['rev-parse', '--show-toplevel']);
+  const relative = (files: string[]) =>
+    files
+      .filter((f) => fs.existsSync(f))
+      .map((f) => path.relative(root, path.resolve(cwd, f)));
+  const dataFiles = relative(options.DataFiles);
+  const reportFiles = relative(options.ReportFiles);
+  const rootOptions = { ...options, RepoPath: root };
+
+  const committed: string[] = [];
+  if (options.ReportBranch) {
+    if (publishToReportBranch(rootOptions, reportFiles)) {
+      committed.push(options.ReportBranch);
+    }
+    if (
+      dataFiles.length &&
+      publishOnCurrentBranch(rootOptions, dataFiles, [])
+    ) {
+      committed.push(git(root, ['rev-parse', '--abbrev-ref', 'HEAD']));
+    }
+  } else if (publishOnCurrentBranch(rootOptions, dataFiles, reportFiles)) {
+    committed.push(git(root, ['rev-parse', '--abbrev-ref', 'HEAD']));
+  }
+
+  return { Committed: committed, Skipped: committed.length === 0 };
+}
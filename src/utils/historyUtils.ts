@@ -0,0 +1,146 @@
+/**
+ * Per-game build and rating history utilities
+ */
+
+import { GameData, GameHistoryEntry } from '../types';
+
+/**
+ * Oldest rating-only entries are dropped once a game has more of them than
+ * this; entries that start a new build are always kept
+ */
+export const MAX_HISTORY_ENTRIES = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type HistoryObservation = Omit<GameHistoryEntry, 'FirstSeen'>;
+
+function roundRating(value?: number): number | undefined {
+  return value == null ? undefined : Math.round(value * 10) / 10;
+}
+
+function hasChanged(
+  previous: GameHistoryEntry,
+  next: GameHistoryEntry
+): boolean {
+  return (
+    previous.BuildID !== next.BuildID ||
+    previous.TimeUpdated !== next.TimeUpdated ||
+    previous.ReviewSummary !== next.ReviewSummary ||
+    roundRating(previous.RatingPercent) !== roundRating(next.RatingPercent)
+  );
+}
+
+/**
+ * Whether an entry starts a new build, or the history: anything else only
+ * records a rating or review summary change
+ */
+function startsBuild(
+  entry: GameHistoryEntry,
+  previous: GameHistoryEntry | undefined
+): boolean {
+  return (
+    !previous ||
+    previous.BuildID !== entry.BuildID ||
+    previous.TimeUpdated !== entry.TimeUpdated
+  );
+}
+
+/**
+ * Bound a chronological history. Build changes are never dropped, so the
+ * feed and the update counts stay complete; only the oldest rating-only
+ * entries past MAX_HISTORY_ENTRIES go.
+ */
+export function trimHistory(history: GameHistoryEntry[]): GameHistoryEntry[] {
+  const ratingOnly = history.filter(
+    (entry, i) => !startsBuild(entry, history[i - 1])
+  );
+  const excess = ratingOnly.length - MAX_HISTORY_ENTRIES;
+  if (excess <= 0) return history;
+  const dropped = new Set(ratingOnly.slice(0, excess));
+  return history.filter((entry) => !dropped.has(entry));
+}
+
+/**
+ * Append an observation to a game's history if anything changed since the
+ * last entry. Fields that could not be fetched this run are carried over
+ * from the previous entry so a failed fetch is not recorded as a change.
+ * Returns true when an entry was added.
+ */
+export function recordHistory(
+  game: GameData,
+  observation: HistoryObservation,
+  now: Date = new Date()
+): boolean {
+  const history = game.History ?? [];
+  const previous = history[history.length - 1];
+
+  const entry: GameHistoryEntry = {
+    FirstSeen: now.toISOString(),
+    BuildID: observation.BuildID ?? previous?.BuildID,
+    TimeUpdated: observation.TimeUpdated ?? previous?.TimeUpdated,
+    RatingPercent: roundRating(
+      observation.RatingPercent ?? previous?.RatingPercent
+    ),
+    ReviewsTotal: observation.ReviewsTotal ?? previous?.ReviewsTotal,
+    ReviewSummary: observation.ReviewSummary ?? previous?.ReviewSummary,
+  };
+
+  if (entry.BuildID == null && entry.RatingPercent == null) return false;
+  if (previous && !hasChanged(previous, entry)) return false;
+
+  history.push(entry);
+  game.History = trimHistory(history);
+  return true;
+}
+
+/**
+ * Time a build change happened: Steam's timeupdated when known, otherwise
+ * when the checker first saw it.
+ */
+export function getChangeTime(entry: GameHistoryEntry): number {
+  return entry.TimeUpdated != null
+    ? entry.TimeUpdated * 1000
+    : Date.parse(entry.FirstSeen);
+}
+
+/**
+ * Entries where the build id moved compared to the entry before it
+ */
+export function getBuildChanges(
+  history: GameHistoryEntry[] = []
+): { previous: GameHistoryEntry; current: GameHistoryEntry }[] {
+  const changes: { previous: GameHistoryEntry; current: GameHistoryEntry }[] =
+    [];
+  let last: GameHistoryEntry | undefined;
+  for (const entry of history) {
+    if (entry.BuildID == null) continue;
+    if (last && last.BuildID !== entry.BuildID) {
+      changes.push({ previous: last, current: entry });
+    }
+    last = entry;
+  }
+  return changes;
+}
+
+/**
+ * Number of build changes seen within the last `days` days
+ */
+export function countUpdatesSince(
+  history: GameHistoryEntry[] | undefined,
+  days: number,
+  now: Date = new Date()
+): number {
+  const cutoff = now.getTime() - days * DAY_MS;
+  return getBuildChanges(history).filter(
+    ({ current }) => getChangeTime(current) >= cutoff
+  ).length;
+}
+
+/**
+ * Rating percentages in chronological order, for trend display
+ */
+export function getRatingTrend(history: GameHistoryEntry[] = []): number[] {
+  return history
+    .map((entry) => entry.RatingPercent)
+    .filter((value): value is number => typeof value === 'number');
+}
@@ -0,0 +1,32 @@
+/**
+ * Machine-readable JSON report
+ */
+
+import { GameData, ReportMeta } from '../types';
+import { countUpdatesSince } from './historyUtils';
+import { getStatusDisplay } from './statusUtils';
+
+/**
+ * Render report.json: run metadata plus one object per game. History is
+ * summarised as update counts; the full log stays in games.json.
+ */
+export function renderJsonReport(
+  sortedResults: GameData[],
+  meta: ReportMeta
+): string {
+  const games = sortedResults.map(({ History, ...game }) => ({
+    ...game,
+    Branch: game.Branch ?? 'public',
+    Source: game.Source ?? 'backup',
+    StatusLabel: getStatusDisplay(game.Status).Label,
+    UpdateAvailable: game.Status?.Code === 'update-available',
+    Updates30d: countUpdatesSince(History, 30),
+    Updates90d: countUpdatesSince(History, 90),
+  }));
+
+  return `${JSON.stringify(
+    { GeneratedAt: meta.GeneratedAt, RunMode: meta.RunMode, Games: games },
+    null,
+    2
+  )}\n`;
+}
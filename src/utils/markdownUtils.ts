@@ -0,0 +1,82 @@
+/**
+ * Markdown report for pasting into issues or a README
+ */
+
+import { GameData, ReportMeta } from '../types';
+import { formatBytes } from './fileUtils';
+import { formatRecentRating } from './ratingUtils';
+import { formatStatus } from './statusUtils';
+import { getRefreshEstimate } from './storeUtils';
+
+/**
+ * Escape characters that would break a table cell or add formatting
+ */
+function markdownCell(value: string | number | undefined): string {
+  if (value == null) return '';
+  return String(value)
+    .replace(/([\\`*_[\]|<>])/g, '\\$1')
+    .replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Render a Markdown table with one row per game, update-available games
+ * and rating alerts counted in the heading and the alerts listed below it
+ */
+export function renderMarkdownReport(
+  sortedResults: GameData[],
+  meta: ReportMeta
+): string {
+  const updates = sortedResults.filter(
+    (g) => g.Status?.Code === 'update-available'
+  ).length;
+  const alerts = sortedResults.filter((g) => g.RatingAlert);
+  const refresh = getRefreshEstimate(sortedResults);
+
+  const lines = [
+    '# Steam Backup Report',
+    '',
+    `${sortedResults.length} game(s), ${updates} with an update available, ${
+      alerts.length
+    } with a rating drop after an update. Generated ${markdownCell(
+      meta.GeneratedAt
+    )} (${markdownCell(meta.RunMode)}).`,
+    '',
+  ];
+  if (refresh.Games) {
+    lines.push(
+      `Refreshing the ${
+        refresh.Games
+      } outdated backup(s) downloads about ${formatBytes(refresh.Bytes)}${
+        refresh.Unknown ? ` (${refresh.Unknown} without a known size)` : ''
+      }.`,
+      ''
+    );
+  }
+  for (const g of alerts) {
+    lines.push(
+      `- 📉 **${markdownCell(g.Name)}**: ${markdownCell(g.RatingAlert)}`
+    );
+  }
+  if (alerts.length) lines.push('');
+  lines.push(
+    '| Name | AppID | Branch | Installed | Latest | Updated | Rating | Recent | Status |',
+    '| --- | ---: | --- | ---: | ---: | --- | ---: | ---: | --- |'
+  );
+  for (const g of sortedResults) {
+    const rating =
+      g.RatingPercent != null ? `${g.RatingPercent.toFixed(1)}%` : '';
+    const recent = `${markdownCell(formatRecentRating(g))}${
+      g.RatingAlert ? ' 📉' : ''
+    }`;
+    lines.push(
+      `| [${markdownCell(g.Name)}](https://store.steampowered.com/app/${
+        g.AppID
+      }/) | ${g.AppID} | ${markdownCell(g.Branch ?? 'public')} | ${markdownCell(
+        g.InstalledBuild
+      )} | ${markdownCell(g.LatestBuild)} | ${markdownCell(
+        g.LatestDate?.split('T')[0]
+      )} | ${rating} | ${recent} | ${markdownCell(formatStatus(g.Status))} |`
+    );
+  }
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,296 @@
+/**
+ * Three-way merge of games.json, per AppID and per field, for concurrent
+ * local and GitHub Actions runs
+ */
+
+import * as fs from 'fs';
+import { GameData, GameHistoryEntry, GamesDataMap, MergeSide } from '../types';
+import { GamesDataError, loadGamesDocument } from './schemaUtils';
+import { trimHistory } from './historyUtils';
+import { getGameStatus, getStoredStatusFacts } from './statusUtils';
+
+/** Name of the merge driver in .gitattributes (`games.json merge=games-json`) */
+export const MERGE_DRIVER_NAME = 'games-json';
+
+export class GamesMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GamesMergeError';
+  }
+}
+
+type FieldRule<T> =
+  /** Changed on both sides: the owning side's value wins */
+  | { owner: MergeSide }
+  /** Changed on both sides: combine the values */
+  | { combine: (ours: T | undefined, theirs: T | undefined) => T | undefined }
+  /** Recomputed from the merged fields; never a conflict */
+  | { derived: true };
+
+type MergedField = Exclude<keyof GameData, 'AppID'>;
+
+function mergeHistory(
+  ours: GameHistoryEntry[] = [],
+  theirs: GameHistoryEntry[] = []
+): GameHistoryEntry[] {
+  const byKey = new Map<string, GameHistoryEntry>();
+  for (const entry of [...ours, ...theirs]) {
+    byKey.set(JSON.stringify(entry), entry);
+  }
+  return trimHistory(
+    [...byKey.values()].sort((a, b) => a.FirstSeen.localeCompare(b.FirstSeen))
+  );
+}
+
+/**
+ * Ownership of every GameData field except AppID. Local runs own what is
+ * read from backups and libraries; Actions runs own what is fetched from
+ * Steam. Status depends on fields of both and is decided again after the
+ * merge.
+ */
+const FIELD_RULES: { [K in MergedField]: FieldRule<GameData[K]> } = {
+  Name: { owner: 'local' },
+  InstalledBuild: { owner: 'local' },
+  Branch: { owner: 'local' },
+  Source: { owner: 'local' },
+  BackupMissingSince: { owner: 'local' },
+  LatestBuild: { owner: 'actions' },
+  LatestDate: { owner: 'actions' },
+  RatingPercent: { owner: 'actions' },
+  ReviewsTotal: { owner: 'actions' },
+  ReviewsPositive: { owner: 'actions' },
+  ReviewsNegative: { owner: 'actions' },
+  ReviewSummary: { owner: 'actions' },
+  RecentRatingPercent: { owner: 'actions' },
+  RecentReviewsTotal: { owner: 'actions' },
+  RecentRatingBeforeUpdate: { owner: 'actions' },
+  RatingChange: { owner: 'actions' },
+  RatingChangeSinceUpdate: { owner: 'actions' },
+  RatingAlert: { owner: 'actions' },
+  NewerBranches: { owner: 'actions' },
+  InstallSize: { owner: 'actions' },
+  Store: { owner: 'actions' },
+  Status: { derived: true },
+  ChangeNumber: { owner: 'actions' },
+  ReviewsCheckedAt: { owner: 'actions' },
+  FetchFailures: { owner: 'actions' },
+  NotifiedBuild: {
+    combine: (ours, theirs) => Math.max(ours ?? 0, theirs ?? 0) || undefined,
+  },
+  History: { combine: mergeHistory },
+};
+
+/** The kind of run behind each side of a merge */
+export interface MergeSides {
+  Ours: MergeSide;
+  Theirs: MergeSide;
+}
+
+export interface MergeConflict {
+  AppID: number;
+  Name: string;
+  /** Field name, or undefined when the whole entry conflicts */
+  Field?: string;
+  Message: string;
+}
+
+export interface GamesMergeResult {
+  Games: GamesDataMap;
+  /** Changes on both sides that no rule could settle */
+  Conflicts: MergeConflict[];
+  /** Changes on both sides settled by field ownership */
+  Resolved: string[];
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Merge one field of a game present on both sides
+ */
+function mergeField<K extends MergedField>(
+  field: K,
+  base: Partial<GameData>,
+  ours: GameData,
+  theirs: GameData,
+  sides: MergeSides,
+  result: GamesMergeResult
+): GameData[K] | undefined {
+  const b = base[field];
+  const o = ours[field];
+  const t = theirs[field];
+  if (same(o, t) || same(t, b)) return o;
+  if (same(o, b)) return t;
+
+  const rule: FieldRule<GameData[K]> = FIELD_RULES[field];
+  if ('derived' in rule) return o;
+  if ('combine' in rule) return rule.combine(o, t);
+  if (sides.Ours === sides.Theirs) {
+    result.Conflicts.push({
+      AppID: ours.AppID,
+      Name: ours.Name,
+      Field: field,
+      Message: `ours ${JSON.stringify(o)}, theirs ${JSON.stringify(
+        t
+      )} (kept ours)`,
+    });
+    return o;
+  }
+  const value = rule.owner === sides.Ours ? o : t;
+  result.Resolved.push(
+    `${ours.Name} (${ours.AppID}) ${field}: kept the ${
+      rule.owner
+    } value ${JSON.stringify(value)}`
+  );
+  return value;
+}
+
+/**
+ * Merge one game present on both sides. `base` is empty when both sides
+ * added the game. A field changed on both sides goes to its owner; when
+ * both sides are the same kind of run it is a conflict and ours is kept.
+ * A stored Status is re-decided from the merged builds, so it cannot
+ * contradict them.
+ */
+function mergeGame(
+  base: Partial<GameData>,
+  ours: GameData,
+  theirs: GameData,
+  sides: MergeSides,
+  result: GamesMergeResult
+): GameData {
+  const merged: Record<string, unknown> = { AppID: ours.AppID };
+  const fields = Object.keys(FIELD_RULES) as MergedField[];
+
+  for (const field of fields) {
+    const value = mergeField(field, base, ours, theirs, sides, result);
+    if (value !== undefined) merged[field] = value;
+  }
+
+  const game = merged as unknown as GameData;
+  if (ours.Status || theirs.Status) {
+    // The Removed fact comes from the last check, i.e. the actions side.
+    const checked = sides.Theirs === 'actions' ? theirs : ours;
+    game.Status = getGameStatus(game, {
+      ...getStoredStatusFacts(checked),
+      Failures: game.FetchFailures,
+    });
+  }
+  return game;
+}
+
+/**
+ * Merge the games of two sides against their common ancestor. Games are
+ * added and removed by local runs (the `add` and `remove` commands), so a
+ * local removal wins over Steam-side updates from an Actions run. Any other
+ * removal of a game the other side changed is a conflict and keeps the
+ * changed entry.
+ */
+export function mergeGamesData(
+  base: GamesDataMap,
+  ours: GamesDataMap,
+  theirs: GamesDataMap,
+  sides: MergeSides
+): GamesMergeResult {
+  const result: GamesMergeResult = { Games: {}, Conflicts: [], Resolved: [] };
+
+  const appIds = new Set(
+    [base, ours, theirs].flatMap((games) => Object.keys(games).map(Number))
+  );
+  for (const appId of [...appIds].sort((a, b) => a - b)) {
+    const b = base[appId];
+    const o = ours[appId];
+    const t = theirs[appId];
+
+    if (o && t) {
+      result.Games[appId] = mergeGame(b ?? {}, o, t, sides, result);
+      continue;
+    }
+    if (!o && !t) continue;
+    if (!b) {
+      // Added on one side only
+      result.Games[appId] = (o ?? t) as GameData;
+      continue;
+    }
+
+    const kept = (o ?? t) as GameData;
+    const [removedBy, keptBy] = o
+      ? [sides.Theirs, sides.Ours]
+      : [sides.Ours, sides.Theirs];
+    const localRemoval = removedBy === 'local' && keptBy === 'actions';
+    if (same(kept, b) || localRemoval) {
+      if (!same(kept, b)) {
+        result.Resolved.push(
+          `${kept.Name} (${appId}): removed locally, Steam-side updates dropped`
+        );
+      }
+      continue;
+    }
+    result.Games[appId] = kept;
+    result.Conflicts.push({
+      AppID: appId,
+      Name: kept.Name,
+      Message: `removed by ${o ? 'theirs' : 'ours'} but changed by ${
+        o ? 'ours' : 'theirs'
+      } (kept the entry)`,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Read one side of a merge. An empty file (no common ancestor) is an empty
+ * game map. Invalid entries cannot be merged field by field, and leaving
+ * them out would delete them, so they fail the merge for manual resolution.
+ */
+export function readMergeSide(file: string): GamesDataMap {
+  const text = fs.readFileSync(file, 'utf-8');
+  if (!text.trim()) return {};
+
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (e) {
+    throw new GamesDataError(
+      `${file} is not valid JSON: ${(e as Error).message}`
+    );
+  }
+  const loaded = loadGamesDocument(document);
+  if (loaded.Rejected.length) {
+    throw new GamesMergeError(
+      [
+        `${file} has ${loaded.Rejected.length} invalid entr${
+          loaded.Rejected.length === 1 ? 'y' : 'ies'
+        }; fix ${
+          loaded.Rejected.length === 1 ? 'it' : 'them'
+        } and merge games.json by hand:`,
+        ...loaded.Rejected.map(
+          ({ Key, Problems }) => `  "${Key}": ${Problems.join('; ')}`
+        ),
+      ].join('\n')
+    );
+  }
+  return loaded.Games;
+}
+
+/**
+ * git config for running `merge-games` as the games.json merge driver of
+ * this script, with `ours` being a run of the given kind
+ */
+export function getMergeDriverConfig(
+  ours: MergeSide,
+  script: string = process.argv[1]
+): Record<string, string> {
+  const quote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+  return {
+    [`merge.${MERGE_DRIVER_NAME}.name`]: 'games.json field-level merge',
+    [`merge.${MERGE_DRIVER_NAME}.driver`]: [
+      quote(process.execPath),
+      quote(script),
+      'merge-games %O %A %B --Ours',
+      ours,
+    ].join(' '),
+  };
+}
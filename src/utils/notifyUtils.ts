@@ -0,0 +1,233 @@
+/**
+ * Webhook notifications for newly available game updates
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import {
+  GameData,
+  UpdateNotification,
+  WebhookFormat,
+  WebhookTarget,
+} from '../types';
+
+const WEBHOOK_FORMATS: WebhookFormat[] = ['json', 'discord', 'slack'];
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * Parse a webhook target of the form `[format:]url`, e.g.
+ * `discord:https://discord.com/api/webhooks/...`. Plain URLs get the
+ * generic JSON payload.
+ */
+export function parseWebhookTarget(value: string): WebhookTarget {
+  const trimmed = value.trim();
+  const prefix = trimmed.match(/^([a-z]+):(https?:\/\/.*)$/i);
+  const format = prefix ? prefix[1].toLowerCase() : 'json';
+  const url = prefix ? prefix[2] : trimmed;
+
+  if (!WEBHOOK_FORMATS.includes(format as WebhookFormat)) {
+    throw new Error(
+      `Unknown webhook format "${format}" (expected one of: ${WEBHOOK_FORMATS.join(
+        ', '
+      )})`
+    );
+  }
+  if (!/^https?:\/\//i.test(url)) {
+    throw new Error(`Webhook URL must be http(s): ${url}`);
+  }
+  return { url, format: format as WebhookFormat };
+}
+
+/**
+ * Decide whether a freshly checked game should be announced. `previous` is
+ * the stored state before this run, `current` the state after it. A build
+ * that was already announced (NotifiedBuild) is never announced again.
+ */
+export function detectNotification(
+  previous: Pick<GameData, 'LatestBuild' | 'InstalledBuild'> | undefined,
+  current: GameData
+): UpdateNotification | null {
+  const latestBuild = current.LatestBuild;
+  if (latestBuild == null) return null;
+  if (current.NotifiedBuild === latestBuild) return null;
+
+  const installed = current.InstalledBuild ?? 0;
+  const wasUpdateAvailable =
+    previous?.LatestBuild != null &&
+    previous.LatestBuild > (previous.InstalledBuild ?? 0);
+  const isUpdateAvailable = latestBuild > installed;
+  const buildChanged =
+    previous?.LatestBuild != null && previous.LatestBuild !== latestBuild;
+
+  let kind: UpdateNotification['Kind'] | null = null;
+  if (isUpdateAvailable && (!wasUpdateAvailable || buildChanged)) {
+    kind = 'update-available';
+  } else if (buildChanged) {
+    kind = 'new-build';
+  }
+  if (!kind) return null;
+
+  return {
+    Kind: kind,
+    Name: current.Name,
+    AppID: current.AppID,
+    Branch: current.Branch ?? 'public',
+    InstalledBuild: current.InstalledBuild,
+    PreviousBuild: previous?.LatestBuild,
+    LatestBuild: latestBuild,
+    LatestDate: current.LatestDate,
+  };
+}
+
+function describe(n: UpdateNotification): string {
+  const branch = n.Branch !== 'public' ? ` [${n.Branch}]` : '';
+  return n.Kind === 'update-available'
+    ? `⚠️ Update available for ${n.Name}${branch}: build ${
+        n.InstalledBuild ?? '?'
+      } → ${n.LatestBuild}`
+    : `🆕 New build for ${n.Name}${branch}: ${n.PreviousBuild ?? '?'} → ${
+        n.LatestBuild
+      }`;
+}
+
+function storeUrl(appId: number): string {
+  return `https://store.steampowered.com/app/${appId}/`;
+}
+
+/**
+ * Build the request body for a notification in the target's format
+ */
+export function buildWebhookPayload(
+  format: WebhookFormat,
+  n: UpdateNotification
+): unknown {
+  switch (format) {
+    case 'discord':
+      return {
+        username: 'Steam Version Checker',
+        embeds: [
+          {
+            title: describe(n),
+            url: storeUrl(n.AppID),
+            color: n.Kind === 'update-available' ? 0xffa500 : 0x4a7bd0,
+            fields: [
+              { name: 'AppID', value: String(n.AppID), inline: true },
+              { name: 'Branch', value: n.Branch, inline: true },
+              {
+                name: 'Installed build',
+                value: String(n.InstalledBuild ?? '—'),
+                inline: true,
+              },
+              {
+                name: 'Latest build',
+                value: String(n.LatestBuild),
+                inline: true,
+              },
+            ],
+            ...(n.LatestDate ? { timestamp: n.LatestDate } : {}),
+          },
+        ],
+      };
+    case 'slack':
+      return {
+        text: `${describe(n)} <${storeUrl(n.AppID)}|Store page>`,
+      };
+    case 'json':
+    default:
+      return {
+        event: n.Kind,
+        name: n.Name,
+        appId: n.AppID,
+        branch: n.Branch,
+        installedBuild: n.InstalledBuild ?? null,
+        previousBuild: n.PreviousBuild ?? null,
+        latestBuild: n.LatestBuild,
+        latestDate: n.LatestDate ?? null,
+        message: describe(n),
+      };
+  }
+}
+
+function postJson(
+  url: string,
+  body: unknown
+): Promise<{ ok: boolean; detail: string }> {
+  const payload = JSON.stringify(body);
+  const client = url.startsWith('https:') ? https : http;
+
+  return new Promise((resolve) => {
+    try {
+      const req = client.request(
+        url,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Content-Length': Buffer.byteLength(payload),
+            'User-Agent': 'SteamVersionChecker',
+          },
+        },
+        (res) => {
+          const status = res.statusCode ?? 0;
+          // A connection dropped mid-response never emits 'end'.
+          const cutOff = (detail: string) =>
+            resolve({ ok: false, detail: `HTTP ${status}, ${detail}` });
+          res.resume();
+          res.on('end', () =>
+            resolve({
+              ok: status >= 200 && status < 300,
+              detail: `HTTP ${status}`,
+            })
+          );
+          res.on('error', (err) => cutOff(String(err)));
+          res.on('aborted', () => cutOff('response aborted'));
+          res.on('close', () => {
+            if (!res.complete) cutOff('connection closed mid-response');
+          });
+        }
+      );
+      req.on('error', (err) => resolve({ ok: false, detail: String(err) }));
+      req.setTimeout(WEBHOOK_TIMEOUT_MS, () => {
+        req.destroy(new Error('Timeout'));
+      });
+      req.end(payload);
+    } catch (err) {
+      resolve({ ok: false, detail: String(err) });
+    }
+  });
+}
+
+/**
+ * Send every notification to every target. Failures are logged and never
+ * thrown, so a broken webhook cannot fail the report run. Returns the
+ * AppIDs that reached at least one target.
+ */
+export async function sendNotifications(
+  notifications: UpdateNotification[],
+  targets: WebhookTarget[]
+): Promise<Set<number>> {
+  const delivered = new Set<number>();
+  if (!notifications.length || !targets.length) return delivered;
+
+  for (const n of notifications) {
+    for (const target of targets) {
+      const result = await postJson(
+        target.url,
+        buildWebhookPayload(target.format, n)
+      );
+      if (result.ok) {
+        delivered.add(n.AppID);
+      } else {
+        console.log(
+          `Webhook (${target.format}) failed for ${n.Name} (AppID: ${n.AppID}): ${result.detail}`
+        );
+      }
+    }
+  }
+
+  console.log(
+    `Webhook notifications delivered for ${delivered.size} of ${notifications.length} update(s)`
+  );
+  return delivered;
+}
@@ -0,0 +1,186 @@
+/**
+ * Build info providers: where build and review data comes from. All of them
+ * parse raw Steam answers the same way; they differ in where the raw
+ * answers come from.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProviderKind, SteamBuildInfo, SteamOptions } from '../types';
+import { FetchError } from './retryUtils';
+import {
+  createSteamSource,
+  fetchSteamReviewSummary,
+  getLatestBuilds,
+  splitAppInfoOutput,
+  SteamRawSource,
+  SteamReviewSummary,
+  StoreResponse,
+} from './steamUtils';
+import { fetchStoreMetadata, StoreMetadataResult } from './storeUtils';
+
+export class FixtureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FixtureError';
+  }
+}
+
+export interface BuildInfoProvider {
+  kind: ProviderKind;
+  /** Public-branch build info per app, as returned by getLatestBuilds */
+  getLatestBuilds: (
+    appIds: number[],
+    knownChangeNumbers?: Map<number, number>
+  ) => Promise<Map<number, SteamBuildInfo>>;
+  /** Review summary of an app, lifetime or recent; never rejects */
+  getReviewSummary: (
+    appId: number,
+    dayRange?: number
+  ) => Promise<SteamReviewSummary>;
+  /** Store page metadata of an app; never rejects */
+  getStoreMetadata: (appId: number) => Promise<StoreMetadataResult>;
+}
+
+/** Fixture holding an app's app_info_print output */
+export function getAppInfoFixture(dir: string, appId: number): string {
+  return path.join(dir, `${appId}.appinfo.txt`);
+}
+
+/** Fixture holding an app's appreviews JSON, lifetime or for a day range */
+export function getReviewsFixture(
+  dir: string,
+  appId: number,
+  dayRange?: number
+): string {
+  return path.join(
+    dir,
+    dayRange == null
+      ? `${appId}.reviews.json`
+      : `${appId}.reviews-${dayRange}d.json`
+  );
+}
+
+/** Fixture holding an app's appdetails JSON */
+export function getAppDetailsFixture(dir: string, appId: number): string {
+  return path.join(dir, `${appId}.appdetails.json`);
+}
+
+/**
+ * Pass answers of `source` through, saving them per AppID. Only successful
+ * store answers are saved; failures replay as missing answers.
+ */
+function createRecordingSource(
+  source: SteamRawSource,
+  dir: string
+): SteamRawSource {
+  const save = (file: string, response: StoreResponse) => {
+    if (response.Status >= 200 && response.Status < 300) {
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(file, response.Body);
+    }
+    return response;
+  };
+  return {
+    getAppInfoOutput: async (appIds) => {
+      const output = await source.getAppInfoOutput(appIds);
+      fs.mkdirSync(dir, { recursive: true });
+      const chunks = splitAppInfoOutput(output, appIds);
+      for (const [appId, chunk] of chunks) {
+        fs.writeFileSync(getAppInfoFixture(dir, appId), chunk);
+      }
+      console.log(
+        `Recorded SteamCMD output of ${chunks.size} app(s) to ${dir}`
+      );
+      return output;
+    },
+    getReviewsResponse: async (appId, dayRange) =>
+      save(
+        getReviewsFixture(dir, appId, dayRange),
+        await source.getReviewsResponse(appId, dayRange)
+      ),
+    getAppDetailsResponse: async (appId) =>
+      save(
+        getAppDetailsFixture(dir, appId),
+        await source.getAppDetailsResponse(appId)
+      ),
+  };
+}
+
+/**
+ * Answer from fixtures saved by a recording source. Apps without an app
+ * info fixture are missing from the output, as when SteamCMD printed
+ * nothing for them.
+ */
+function createReplaySource(dir: string): SteamRawSource {
+  if (!fs.existsSync(dir)) {
+    throw new FixtureError(`Fixtures directory ${dir} does not exist`);
+  }
+  const load = (file: string, what: string): StoreResponse => {
+    if (!fs.existsSync(file)) {
+      throw new FetchError(`No recorded ${what} in ${file}`, 'unavailable');
+    }
+    return { Status: 200, Body: fs.readFileSync(file, 'utf-8') };
+  };
+  return {
+    getAppInfoOutput: async (appIds) => {
+      const files = appIds
+        .map((appId) => getAppInfoFixture(dir, appId))
+        .filter((file) => fs.existsSync(file));
+      console.log(
+        `Replaying SteamCMD output of ${files.length} of ${appIds.length} app(s) from ${dir}`
+      );
+      return files.map((file) => fs.readFileSync(file, 'utf-8')).join('\n');
+    },
+    getReviewsResponse: async (appId, dayRange) =>
+      load(getReviewsFixture(dir, appId, dayRange), 'reviews'),
+    getAppDetailsResponse: async (appId) =>
+      load(getAppDetailsFixture(dir, appId), 'store metadata'),
+  };
+}
+
+function createProvider(
+  kind: ProviderKind,
+  source: SteamRawSource,
+  options: Partial<SteamOptions>
+): BuildInfoProvider {
+  return {
+    kind,
+    getLatestBuilds: (appIds, knownChangeNumbers) =>
+      getLatestBuilds(appIds, source, options, knownChangeNumbers),
+    getReviewSummary: (appId, dayRange) =>
+      fetchSteamReviewSummary(appId, source, options, dayRange),
+    getStoreMetadata: (appId) => fetchStoreMetadata(appId, source, options),
+  };
+}
+
+/**
+ * Provider of the given kind. `steamCmdPath` is needed by every kind but
+ * `replay`, which works offline without retries or circuit breakers:
+ * fixtures do not change between attempts.
+ */
+export function createBuildInfoProvider(
+  kind: ProviderKind,
+  fixturesDir: string,
+  options: Partial<SteamOptions>,
+  steamCmdPath?: string
+): BuildInfoProvider {
+  const dir = path.resolve(fixturesDir);
+  if (kind === 'replay') {
+    return createProvider(kind, createReplaySource(dir), {
+      ...options,
+      Retries: 0,
+      SteamCmdRetries: 0,
+      CircuitBreakerThreshold: Infinity,
+    });
+  }
+  if (!steamCmdPath) {
+    throw new Error(`The ${kind} provider needs SteamCmdPath`);
+  }
+  const source = createSteamSource(steamCmdPath, options);
+  return createProvider(
+    kind,
+    kind === 'record' ? createRecordingSource(source, dir) : source,
+    options
+  );
+}
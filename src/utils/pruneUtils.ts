@@ -0,0 +1,127 @@
+/**
+ * Retention report and pruning of superseded backup archives
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { LocalBackup } from '../types';
+import { formatBytes, selectCurrentBackups } from './fileUtils';
+
+export interface PruneItem {
+  Backup: LocalBackup;
+  SupersededBy: LocalBackup;
+  SizeBytes: number;
+}
+
+export interface PrunePlan {
+  Items: PruneItem[];
+  TotalBytes: number;
+}
+
+/**
+ * Size of a file, or of everything below a directory
+ */
+function getPathSize(target: string): number {
+  const stat = fs.statSync(target);
+  if (!stat.isDirectory()) return stat.size;
+  return fs
+    .readdirSync(target)
+    .reduce((sum, entry) => sum + getPathSize(path.join(target, entry)), 0);
+}
+
+/**
+ * List the archives superseded by a higher build of the same AppID and
+ * branch
+ */
+export function planPrune(backups: LocalBackup[]): PrunePlan {
+  const items = selectCurrentBackups(backups)
+    .Superseded.filter(({ Backup }) => Backup.Source === 'backup')
+    .map(({ Backup, SupersededBy }) => ({
+      Backup,
+      SupersededBy,
+      SizeBytes: Backup.Files.reduce((sum, f) => sum + getPathSize(f), 0),
+    }))
+    .sort(
+      (a, b) =>
+        a.Backup.Name.localeCompare(b.Backup.Name) ||
+        a.Backup.InstalledBuild - b.Backup.InstalledBuild
+    );
+
+  return {
+    Items: items,
+    TotalBytes: items.reduce((sum, item) => sum + item.SizeBytes, 0),
+  };
+}
+
+/**
+ * Print the prune plan as a retention report
+ */
+export function logPrunePlan(plan: PrunePlan): void {
+  if (!plan.Items.length) {
+    console.log('No superseded backups found.');
+    return;
+  }
+
+  console.log(`Superseded backups (${plan.Items.length}):`);
+  for (const item of plan.Items) {
+    console.log(
+      `  ${item.Backup.Name} (AppID: ${item.Backup.AppID}) build ${
+        item.Backup.InstalledBuild
+      } superseded by ${item.SupersededBy.InstalledBuild} - ${formatBytes(
+        item.SizeBytes
+      )}`
+    );
+    for (const file of item.Backup.Files) console.log(`    ${file}`);
+  }
+  console.log(`Reclaimable space: ${formatBytes(plan.TotalBytes)}`);
+}
+
+function moveToTrash(file: string, trashDir: string): void {
+  fs.mkdirSync(trashDir, { recursive: true });
+  const destination = path.join(trashDir, path.basename(file));
+  if (fs.existsSync(destination)) {
+    throw new Error(`Already exists in trash folder: ${destination}`);
+  }
+  try {
+    fs.renameSync(file, destination);
+  } catch (e: unknown) {
+    // Renames cannot cross devices; fall back to copy + delete.
+    if (!(e instanceof Error && 'code' in e && e.code === 'EXDEV')) throw e;
+    fs.cpSync(file, destination, { recursive: true });
+    fs.rmSync(file, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Move superseded archives to `trashDir`, or delete them when no trash
+ * folder is given. Returns the number of bytes reclaimed.
+ */
+export function executePrunePlan(plan: PrunePlan, trashDir?: string): number {
+  let reclaimed = 0;
+
+  for (const item of plan.Items) {
+    try {
+      for (const file of item.Backup.Files) {
+        if (trashDir) {
+          moveToTrash(file, trashDir);
+        } else {
+          fs.rmSync(file, { recursive: true, force: true });
+        }
+      }
+      reclaimed += item.SizeBytes;
+      console.log(
+        `${trashDir ? 'Moved to trash' : 'Deleted'}: ${
+          item.Backup.Name
+        } build ${item.Backup.InstalledBuild}`
+      );
+    } catch (e) {
+      console.error(
+        `Failed to prune ${item.Backup.Name} build ${item.Backup.InstalledBuild}:`,
+        e
+      );
+    }
+  }
+
+  console.log(`Reclaimed: ${formatBytes(reclaimed)}`);
+  return reclaimed;
+}
@@ -0,0 +1,95 @@
+/**
+ * Recent rating trend: changes since the previous check and since the last
+ * update, and alerts for sharp drops after an update
+ */
+
+import { GameData, Params } from '../types';
+import { SteamReviewSummary } from './steamUtils';
+
+export type RatingAlertOptions = Pick<
+  Params,
+  'RatingDropAlert' | 'RatingAlertMinReviews'
+>;
+
+function roundPoints(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Alert text when the recent rating fell by at least RatingDropAlert points
+ * since the last build change, based on enough recent reviews
+ */
+export function getRatingAlert(
+  game: GameData,
+  options: RatingAlertOptions
+): string | undefined {
+  const change = game.RatingChangeSinceUpdate;
+  const before = game.RecentRatingBeforeUpdate;
+  const now = game.RecentRatingPercent;
+  if (change == null || before == null || now == null) return undefined;
+  if (change > -options.RatingDropAlert) return undefined;
+  if ((game.RecentReviewsTotal ?? 0) < options.RatingAlertMinReviews) {
+    return undefined;
+  }
+  return `Recent rating fell ${-change} points since the update to build ${
+    game.LatestBuild
+  } (${before.toFixed(1)}% → ${now.toFixed(1)}%, ${
+    game.RecentReviewsTotal
+  } recent reviews)`;
+}
+
+/**
+ * Store recent review stats on a game, already updated with this check's
+ * LatestBuild, and recompute its rating changes and alert. When the build
+ * moved since `previousBuild`, the recent rating before this check becomes
+ * the baseline of the new update, even if the recent fetch failed.
+ */
+export function updateRatingTrend(
+  game: GameData,
+  recent: SteamReviewSummary,
+  previousBuild: number | undefined,
+  options: RatingAlertOptions
+): void {
+  const before = game.RecentRatingPercent;
+  if (
+    previousBuild != null &&
+    game.LatestBuild != null &&
+    game.LatestBuild !== previousBuild
+  ) {
+    game.RecentRatingBeforeUpdate = before;
+  }
+  if (recent.failure) return;
+
+  const now = recent.ratingPercent ?? undefined;
+  const baseline = game.RecentRatingBeforeUpdate;
+  game.RecentRatingPercent = now;
+  game.RecentReviewsTotal = recent.total ?? undefined;
+  game.RatingChange =
+    now != null && before != null ? roundPoints(now - before) : undefined;
+  game.RatingChangeSinceUpdate =
+    now != null && baseline != null ? roundPoints(now - baseline) : undefined;
+  game.RatingAlert = getRatingAlert(game, options);
+}
+
+/**
+ * Signed change in points with an arrow, e.g. "▼ 12.5", for renderers
+ */
+export function formatRatingChange(change?: number): string {
+  if (change == null) return '';
+  if (change === 0) return '± 0';
+  return `${change > 0 ? '▲' : '▼'} ${Math.abs(change).toFixed(1)}`;
+}
+
+/**
+ * Recent rating with its change since the last update, e.g.
+ * "61.5% (▼ 12.5 since update)", for renderers
+ */
+export function formatRecentRating(game: GameData): string {
+  if (game.RecentRatingPercent == null) return '';
+  const rating = `${game.RecentRatingPercent.toFixed(1)}%`;
+  return game.RatingChangeSinceUpdate == null
+    ? rating
+    : `${rating} (${formatRatingChange(
+        game.RatingChangeSinceUpdate
+      )} since update)`;
+}
@@ -0,0 +1,111 @@
+/**
+ * Report renderer registry and report writing
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { GameData, ReportFormat, ReportMeta, ReportOutput } from '../types';
+import { renderCsvReport } from './csvUtils';
+import { renderHtmlReport } from './htmlUtils';
+import { renderJsonReport } from './jsonUtils';
+import { renderMarkdownReport } from './markdownUtils';
+
+export interface ReportRenderer {
+  format: ReportFormat;
+  /** File name used when an output gives no path */
+  defaultFile: string;
+  render: (sortedResults: GameData[], meta: ReportMeta) => string;
+}
+
+export const REPORT_RENDERERS: Record<ReportFormat, ReportRenderer> = {
+  html: { format: 'html', defaultFile: 'index.html', render: renderHtmlReport },
+  json: {
+    format: 'json',
+    defaultFile: 'report.json',
+    render: renderJsonReport,
+  },
+  csv: { format: 'csv', defaultFile: 'report.csv', render: renderCsvReport },
+  markdown: {
+    format: 'markdown',
+    defaultFile: 'report.md',
+    render: renderMarkdownReport,
+  },
+};
+
+const FORMAT_ALIASES: Record<string, ReportFormat> = { md: 'markdown' };
+
+/**
+ * Parse a report output of the form `format[=file]`, e.g. `csv` or
+ * `markdown=docs/status.md`
+ */
+export function parseReportOutput(value: string): ReportOutput {
+  const eq = value.indexOf('=');
+  const name = (eq === -1 ? value : value.substring(0, eq)).trim();
+  const file = eq === -1 ? '' : value.substring(eq + 1).trim();
+  const format = FORMAT_ALIASES[name.toLowerCase()] ?? name.toLowerCase();
+
+  if (!(format in REPORT_RENDERERS)) {
+    throw new Error(
+      `Unknown report format "${name}" (expected one of: ${Object.keys(
+        REPORT_RENDERERS
+      ).join(', ')})`
+    );
+  }
+  return {
+    Format: format as ReportFormat,
+    ...(file ? { File: file } : {}),
+  };
+}
+
+/**
+ * Absolute path of a report output. HTML without an explicit path uses
+ * `htmlFile` (the ReportFile setting).
+ */
+export function getReportOutputFile(
+  repoPath: string,
+  output: ReportOutput,
+  htmlFile: string
+): string {
+  const file =
+    output.File ??
+    (output.Format === 'html'
+      ? htmlFile
+      : REPORT_RENDERERS[output.Format].defaultFile);
+  return path.resolve(repoPath, file);
+}
+
+/**
+ * Link to the feed as seen from a report file
+ */
+function getFeedHref(reportFile: string, feedFile: string): string {
+  return path
+    .relative(path.dirname(reportFile), feedFile)
+    .split(path.sep)
+    .join('/');
+}
+
+/**
+ * Render and write each selected report. Results are sorted by name once so
+ * every format lists games in the same order. Returns the written files.
+ */
+export function writeReports(
+  results: GameData[],
+  meta: Omit<ReportMeta, 'FeedHref'>,
+  outputs: { Format: ReportFormat; Path: string }[],
+  feedFile: string
+): string[] {
+  const sortedResults = [...results].sort((a, b) =>
+    a.Name.localeCompare(b.Name)
+  );
+
+  for (const output of outputs) {
+    const content = REPORT_RENDERERS[output.Format].render(sortedResults, {
+      ...meta,
+      FeedHref: getFeedHref(output.Path, feedFile),
+    });
+    fs.mkdirSync(path.dirname(output.Path), { recursive: true });
+    fs.writeFileSync(output.Path, content, 'utf-8');
+    console.log(`${output.Format} report generated:`, output.Path);
+  }
+  return outputs.map((o) => o.Path);
+}
@@ -0,0 +1,214 @@
+/**
+ * Retries with exponential backoff, Retry-After handling and per-service
+ * circuit breakers for calls to Steam
+ */
+
+import { FetchFailure, FetchFailureKind, SteamOptions } from '../types';
+
+export const DEFAULT_RETRIES = 3;
+/**
+ * SteamCMD sessions time out after minutes rather than seconds, so they get
+ * fewer retries than store requests
+ */
+export const DEFAULT_STEAMCMD_RETRIES = 1;
+export const DEFAULT_RETRY_BASE_DELAY_MS = 1000;
+export const DEFAULT_RETRY_MAX_DELAY_MS = 30000;
+export const DEFAULT_CIRCUIT_BREAKER_THRESHOLD = 5;
+export const DEFAULT_CIRCUIT_BREAKER_COOLDOWN_MS = 5 * 60 * 1000;
+
+/**
+ * A classified failure of a call to Steam
+ */
+export class FetchError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: FetchFailureKind,
+    /** Server-requested wait before the next attempt (Retry-After) */
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'FetchError';
+  }
+}
+
+/** Failures worth another attempt; the others will not change on retry */
+const RETRYABLE: ReadonlySet<FetchFailureKind> = new Set<FetchFailureKind>([
+  'timeout',
+  'rate-limited',
+  'unavailable',
+  'network',
+]);
+
+/** Every failure kind, for validating stored failures */
+const FETCH_FAILURE_KINDS: Record<FetchFailureKind, true> = {
+  timeout: true,
+  'rate-limited': true,
+  'parse-error': true,
+  'access-denied': true,
+  unavailable: true,
+  network: true,
+  'not-installed': true,
+};
+
+export function isFetchFailureKind(value: unknown): value is FetchFailureKind {
+  return (
+    typeof value === 'string' &&
+    Object.prototype.hasOwnProperty.call(FETCH_FAILURE_KINDS, value)
+  );
+}
+
+/**
+ * Failure record for a game, from any error thrown by a fetch
+ */
+export function toFetchFailure(
+  source: FetchFailure['Source'],
+  error: unknown
+): FetchFailure {
+  return error instanceof FetchError
+    ? { Source: source, Kind: error.kind, Message: error.message }
+    : { Source: source, Kind: 'network', Message: String(error) };
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header, given in seconds or as
+ * an HTTP date
+ */
+export function parseRetryAfter(
+  value: string | string[] | undefined,
+  now: number = Date.now()
+): number | undefined {
+  const header = Array.isArray(value) ? value[0] : value;
+  if (!header) return undefined;
+  if (/^\d+$/.test(header.trim())) return parseInt(header, 10) * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Delay before retry `attempt` (1-based): exponential, capped, with jitter
+ * so parallel callers do not retry in lockstep
+ */
+export function getBackoffDelay(
+  attempt: number,
+  options: Partial<SteamOptions> = {}
+): number {
+  const base = options.RetryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+  const max = options.RetryMaxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+  const delay = Math.min(max, base * 2 ** (attempt - 1));
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+/**
+ * Stops calling a service after repeated failures. Once the cooldown has
+ * passed one call is let through; success closes the breaker again.
+ */
+class CircuitBreaker {
+  private failures = 0;
+  private openUntil = 0;
+
+  constructor(public readonly service: string) {}
+
+  isOpen(now: number = Date.now()): boolean {
+    return now < this.openUntil;
+  }
+
+  /** Throws instead of calling while the breaker is open */
+  check(now: number = Date.now()): void {
+    if (this.isOpen(now)) {
+      throw new FetchError(
+        `${this.service} skipped after ${
+          this.failures
+        } consecutive failures (retrying after ${new Date(
+          this.openUntil
+        ).toISOString()})`,
+        'unavailable'
+      );
+    }
+  }
+
+  succeeded(): void {
+    this.failures = 0;
+    this.openUntil = 0;
+  }
+
+  failed(options: Partial<SteamOptions>, now: number = Date.now()): void {
+    this.failures++;
+    const threshold =
+      options.CircuitBreakerThreshold ?? DEFAULT_CIRCUIT_BREAKER_THRESHOLD;
+    if (this.failures >= threshold) {
+      const cooldown =
+        options.CircuitBreakerCooldownMs ?? DEFAULT_CIRCUIT_BREAKER_COOLDOWN_MS;
+      if (now >= this.openUntil) {
+        console.log(
+          `${this.service} failed ${this.failures} times in a row; skipping it for ${cooldown} ms`
+        );
+      }
+      this.openUntil = now + cooldown;
+    }
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+function getCircuitBreaker(service: string): CircuitBreaker {
+  let breaker = breakers.get(service);
+  if (!breaker) {
+    breaker = new CircuitBreaker(service);
+    breakers.set(service, breaker);
+  }
+  return breaker;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Call `operation` until it succeeds, retrying retryable FetchErrors with
+ * backoff (or the server's Retry-After). Calls go through the service's
+ * circuit breaker; only service-level failures (not parse errors or access
+ * restrictions) count towards opening it. Throws the last FetchError.
+ */
+export async function withRetry<T>(
+  service: string,
+  operation: () => Promise<T>,
+  options: Partial<SteamOptions> = {}
+): Promise<T> {
+  const breaker = getCircuitBreaker(service);
+  const retries = options.Retries ?? DEFAULT_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    breaker.check();
+    try {
+      const result = await operation();
+      breaker.succeeded();
+      return result;
+    } catch (failure) {
+      // Anything unclassified is a bug or a setup problem, not Steam.
+      if (!(failure instanceof FetchError)) throw failure;
+      if (!RETRYABLE.has(failure.kind)) {
+        breaker.succeeded();
+        throw failure;
+      }
+      breaker.failed(options);
+      const maxDelay = options.RetryMaxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+      // A Retry-After longer than we would ever back off means "not this run".
+      if (
+        attempt >= retries ||
+        breaker.isOpen() ||
+        (failure.retryAfterMs ?? 0) > maxDelay
+      ) {
+        throw failure;
+      }
+
+      const delay = Math.max(
+        getBackoffDelay(attempt + 1, options),
+        failure.retryAfterMs ?? 0
+      );
+      console.log(
+        `${service}: ${failure.kind} (${failure.message}); retry ${
+          attempt + 1
+        }/${retries} in ${delay} ms`
+      );
+      await sleep(delay);
+    }
+  }
+}
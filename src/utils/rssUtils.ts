@@ -1,8 +1,112 @@
 /**
- * RSS functionality has been removed.
- *
- * This file intentionally contains no logic and is kept only to avoid
- * breaking older imports if any exist outside the current build.
+ * Atom feed generation for detected build changes
  */
 
-export {};
+import * as fs from 'fs';
+import { GameData } from '../types';
+import { getBuildChanges, getChangeTime } from './historyUtils';
+
+/** Newest entries kept in the feed */
+const MAX_FEED_ENTRIES = 50;
+
+const FEED_ID = 'urn:steamversionchecker:feed';
+
+interface FeedEntry {
+  id: string;
+  title: string;
+  updated: string;
+  link: string;
+  summary: string;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Build one entry per LatestBuild change recorded in the games' history.
+ * The entry id only depends on the AppID and the new build, so it stays the
+ * same every time the hourly job regenerates the feed.
+ */
+function collectFeedEntries(games: GameData[]): FeedEntry[] {
+  const entries: (FeedEntry & { time: number })[] = [];
+
+  for (const game of games) {
+    for (const { previous, current } of getBuildChanges(game.History)) {
+      const time = getChangeTime(current);
+      if (!Number.isFinite(time)) continue;
+      const updated = new Date(time).toISOString();
+      const branch =
+        game.Branch && game.Branch !== 'public' ? ` [${game.Branch}]` : '';
+
+      entries.push({
+        id: `urn:steamversionchecker:build:${game.AppID}:${current.BuildID}`,
+        title: `${game.Name}${branch}: build ${previous.BuildID} → ${current.BuildID}`,
+        updated,
+        link: `https://store.steampowered.com/app/${game.AppID}/`,
+        summary: [
+          `Game: ${game.Name}`,
+          `AppID: ${game.AppID}`,
+          `Old build: ${previous.BuildID}`,
+          `New build: ${current.BuildID}`,
+          `Updated: ${updated}`,
+        ].join('\n'),
+        time,
+      });
+    }
+  }
+
+  return entries
+    .sort((a, b) => b.time - a.time || a.id.localeCompare(b.id))
+    .slice(0, MAX_FEED_ENTRIES)
+    .map(({ time, ...entry }) => entry);
+}
+
+/**
+ * Render an Atom 1.0 feed of build changes
+ */
+export function renderAtomFeed(
+  games: GameData[],
+  generatedAt: Date = new Date()
+): string {
+  const entries = collectFeedEntries(games);
+  // Use the newest entry as the feed timestamp so an unchanged feed stays
+  // byte-identical between runs. An empty feed was last updated now; the
+  // publisher ignores timestamp-only changes.
+  const feedUpdated = entries[0]?.updated ?? generatedAt.toISOString();
+
+  let xml = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${FEED_ID}</id>
+  <title>Steam Backup Report – build changes</title>
+  <updated>${feedUpdated}</updated>
+  <author><name>Steam Version Checker</name></author>
+  <generator>SteamVersionChecker</generator>
+`;
+
+  for (const entry of entries) {
+    xml += `  <entry>
+    <id>${escapeXml(entry.id)}</id>
+    <title>${escapeXml(entry.title)}</title>
+    <updated>${entry.updated}</updated>
+    <link rel="alternate" href="${escapeXml(entry.link)}"/>
+    <summary type="text">${escapeXml(entry.summary)}</summary>
+  </entry>
+`;
+  }
+
+  xml += '</feed>\n';
+  return xml;
+}
+
+/**
+ * Write the Atom feed of build changes next to the report
+ */
+export function generateAtomFeed(games: GameData[], feedFile: string): void {
+  fs.writeFileSync(feedFile, renderAtomFeed(games), 'utf-8');
+}
@@ -0,0 +1,325 @@
+/**
+ * games.json schema versions, migrations and validation
+ */
+
+import {
+  GameData,
+  GamesDataFile,
+  GamesDataMap,
+  GameStatusCode,
+} from '../types';
+import { isFetchFailureKind } from './retryUtils';
+import { isGameStatusCode } from './statusUtils';
+
+/** Schema version written by this release */
+export const GAMES_SCHEMA_VERSION = 4;
+
+export class GamesDataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GamesDataError';
+  }
+}
+
+/** Icons that started the old free-form Status text */
+const LEGACY_STATUS_CODES: [string, GameStatusCode][] = [
+  ['✅', 'up-to-date'],
+  ['⚠️', 'update-available'],
+  ['❌', 'build-unknown'],
+];
+
+interface GamesMigration {
+  /** Version this migration upgrades from; it produces `from + 1` */
+  from: number;
+  description: string;
+  migrate: (document: unknown) => unknown;
+}
+
+/**
+ * Registered migrations, applied in order. Add a new entry (and bump
+ * GAMES_SCHEMA_VERSION) whenever the stored layout or a field changes.
+ */
+const GAMES_MIGRATIONS: GamesMigration[] = [
+  {
+    from: 1,
+    description: 'wrap the game map in a versioned document',
+    migrate: (document) => ({ SchemaVersion: 2, Games: document }),
+  },
+  {
+    from: 2,
+    description: 'drop the obsolete Rating field (replaced by RatingPercent)',
+    migrate: (document) => {
+      const { Games } = document as GamesDataFile;
+      for (const game of Object.values(Games)) {
+        if (isPlainObject(game)) delete game.Rating;
+      }
+      return { SchemaVersion: 3, Games };
+    },
+  },
+  {
+    from: 3,
+    description: 'store Status as a code and reason instead of display text',
+    migrate: (document) => {
+      const { Games } = document as GamesDataFile;
+      for (const game of Object.values(Games)) {
+        if (!isPlainObject(game)) continue;
+        const code =
+          typeof game.Status === 'string'
+            ? LEGACY_STATUS_CODES.find(([prefix]) =>
+                (game.Status as string).startsWith(prefix)
+              )?.[1]
+            : undefined;
+        if (code) {
+          game.Status = {
+            Code: code,
+            Reason: `Migrated from "${game.Status}"`,
+          };
+        } else {
+          delete game.Status;
+        }
+      }
+      return { SchemaVersion: 4, Games };
+    },
+  },
+];
+
+/** A JSON object, as opposed to an array, a primitive or null */
+export function isPlainObject(
+  value: unknown
+): value is Record<string, unknown> {
+  return value != null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Schema version of a parsed games.json. Files without a SchemaVersion are
+ * the original bare map (version 1).
+ */
+export function getSchemaVersion(document: unknown): number {
+  if (!isPlainObject(document)) {
+    throw new GamesDataError('games.json must contain a JSON object');
+  }
+  if (!('SchemaVersion' in document)) return 1;
+
+  const version = document.SchemaVersion;
+  if (
+    typeof version !== 'number' ||
+    !Number.isInteger(version) ||
+    version < 2
+  ) {
+    throw new GamesDataError(
+      `Invalid SchemaVersion in games.json: ${JSON.stringify(version)}`
+    );
+  }
+  if (!isPlainObject(document.Games)) {
+    throw new GamesDataError('games.json "Games" must be a JSON object');
+  }
+  return version;
+}
+
+/**
+ * Upgrade a parsed games.json to the current schema version. Returns the
+ * migrated document and the descriptions of the steps applied.
+ */
+export function migrateGamesDocument(document: unknown): {
+  Document: GamesDataFile;
+  Applied: string[];
+} {
+  let version = getSchemaVersion(document);
+  if (version > GAMES_SCHEMA_VERSION) {
+    throw new GamesDataError(
+      `games.json has schema version ${version}, but this release only understands up to ${GAMES_SCHEMA_VERSION}; update Steam Version Checker`
+    );
+  }
+
+  const applied: string[] = [];
+  let current = document;
+  while (version < GAMES_SCHEMA_VERSION) {
+    const migration = GAMES_MIGRATIONS.find((m) => m.from === version);
+    if (!migration) {
+      throw new GamesDataError(
+        `No migration registered from games.json schema version ${version}`
+      );
+    }
+    current = migration.migrate(current);
+    version++;
+    applied.push(`${migration.from} → ${version}: ${migration.description}`);
+  }
+
+  return { Document: current as GamesDataFile, Applied: applied };
+}
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isString: FieldCheck = (v) => typeof v === 'string';
+const isNonNegativeInteger: FieldCheck = (v) =>
+  typeof v === 'number' && Number.isInteger(v) && v >= 0;
+const isFiniteNumber: FieldCheck = (v) =>
+  typeof v === 'number' && Number.isFinite(v);
+const isStringArray: FieldCheck = (v) =>
+  Array.isArray(v) && v.every((item) => typeof item === 'string');
+const isHistory: FieldCheck = (v) =>
+  Array.isArray(v) &&
+  v.every((entry) => isPlainObject(entry) && isString(entry.FirstSeen));
+
+/**
+ * Checks for the optional GameData fields. Keyed by every field except Name
+ * and AppID, so adding a field to GameData without a check fails to compile.
+ */
+const OPTIONAL_FIELDS: Record<
+  Exclude<keyof GameData, 'Name' | 'AppID'>,
+  FieldCheck
+> = {
+  InstalledBuild: isNonNegativeInteger,
+  Branch: isString,
+  Source: (v) => v === 'backup' || v === 'library',
+  BackupMissingSince: isString,
+  LatestBuild: isNonNegativeInteger,
+  LatestDate: isString,
+  RatingPercent: isFiniteNumber,
+  ReviewsTotal: isNonNegativeInteger,
+  ReviewsPositive: isNonNegativeInteger,
+  ReviewsNegative: isNonNegativeInteger,
+  ReviewSummary: isString,
+  RecentRatingPercent: isFiniteNumber,
+  RecentReviewsTotal: isNonNegativeInteger,
+  RecentRatingBeforeUpdate: isFiniteNumber,
+  RatingChange: isFiniteNumber,
+  RatingChangeSinceUpdate: isFiniteNumber,
+  RatingAlert: isString,
+  NewerBranches: isStringArray,
+  InstallSize: isNonNegativeInteger,
+  Store: (v) =>
+    isPlainObject(v) &&
+    isString(v.FetchedAt) &&
+    ['HeaderImage', 'ReleaseDate'].every(
+      (k) => v[k] === undefined || isString(v[k])
+    ) &&
+    ['Developers', 'Publishers', 'Genres', 'Platforms'].every(
+      (k) => v[k] === undefined || isStringArray(v[k])
+    ),
+  Status: (v) =>
+    isPlainObject(v) && isGameStatusCode(v.Code) && isString(v.Reason),
+  NotifiedBuild: isNonNegativeInteger,
+  History: isHistory,
+  ChangeNumber: isNonNegativeInteger,
+  ReviewsCheckedAt: isString,
+  FetchFailures: (v) =>
+    Array.isArray(v) &&
+    v.every(
+      (f) =>
+        isPlainObject(f) &&
+        ['steamcmd', 'reviews', 'store'].includes(f.Source as string) &&
+        isFetchFailureKind(f.Kind) &&
+        isString(f.Message)
+    ),
+};
+
+export interface GameValidationResult {
+  /** Cleaned entry, or undefined when it has to be quarantined */
+  Game?: GameData;
+  /** Reasons the entry cannot be used */
+  Problems: string[];
+  /** Fields that were unknown or invalid and have been removed */
+  Dropped: string[];
+}
+
+/**
+ * Validate one games.json entry. Name and AppID must be usable or the entry
+ * is rejected; unknown or malformed optional fields are dropped.
+ */
+export function validateGameEntry(
+  key: string,
+  entry: unknown
+): GameValidationResult {
+  if (!isPlainObject(entry)) {
+    return { Problems: ['entry is not a JSON object'], Dropped: [] };
+  }
+
+  const problems: string[] = [];
+  if (!/^\d+$/.test(key) || Number(key) <= 0) {
+    problems.push(`key "${key}" is not an AppID`);
+  }
+  if (typeof entry.Name !== 'string' || !entry.Name.trim()) {
+    problems.push(
+      `Name must be a non-empty string (got ${JSON.stringify(entry.Name)})`
+    );
+  }
+  if (!isNonNegativeInteger(entry.AppID) || entry.AppID !== Number(key)) {
+    problems.push(
+      `AppID must be the number ${key} (got ${JSON.stringify(entry.AppID)})`
+    );
+  }
+  if (problems.length) return { Problems: problems, Dropped: [] };
+
+  const game: Record<string, unknown> = {
+    Name: entry.Name,
+    AppID: entry.AppID,
+  };
+  const dropped: string[] = [];
+  for (const [field, value] of Object.entries(entry)) {
+    if (field === 'Name' || field === 'AppID' || value == null) continue;
+    const check = OPTIONAL_FIELDS[field as keyof typeof OPTIONAL_FIELDS];
+    if (!check) {
+      dropped.push(`${field} (unknown field)`);
+    } else if (!check(value)) {
+      dropped.push(`${field} (invalid value ${JSON.stringify(value)})`);
+    } else {
+      game[field] = value;
+    }
+  }
+
+  return { Game: game as unknown as GameData, Problems: [], Dropped: dropped };
+}
+
+export interface GamesLoadResult {
+  Games: GamesDataMap;
+  /** Schema version found in the file */
+  FromVersion: number;
+  /** Migration steps that were applied */
+  Migrations: string[];
+  /** Entries that failed validation, keyed as in the file */
+  Rejected: { Key: string; Entry: unknown; Problems: string[] }[];
+  /** Per-game notes about removed fields */
+  Dropped: { Key: string; Fields: string[] }[];
+}
+
+/**
+ * Migrate and validate a parsed games.json. Never throws for bad entries;
+ * only an unreadable document or an unknown future version is an error.
+ */
+export function loadGamesDocument(document: unknown): GamesLoadResult {
+  const fromVersion = getSchemaVersion(document);
+  const { Document, Applied } = migrateGamesDocument(document);
+
+  const result: GamesLoadResult = {
+    Games: {},
+    FromVersion: fromVersion,
+    Migrations: Applied,
+    Rejected: [],
+    Dropped: [],
+  };
+  for (const [key, entry] of Object.entries(Document.Games)) {
+    const { Game, Problems, Dropped } = validateGameEntry(key, entry);
+    if (!Game) {
+      result.Rejected.push({ Key: key, Entry: entry, Problems });
+      continue;
+    }
+    result.Games[Game.AppID] = Game;
+    if (Dropped.length) result.Dropped.push({ Key: key, Fields: Dropped });
+  }
+  return result;
+}
+
+/**
+ * Serializable games.json document at the current schema version, with
+ * games sorted by name
+ */
+export function toGamesDocument(gamesData: GamesDataMap): GamesDataFile {
+  const sortedEntries = Object.entries(gamesData).sort(([, a], [, b]) =>
+    a.Name.localeCompare(b.Name)
+  );
+  return {
+    SchemaVersion: GAMES_SCHEMA_VERSION,
+    Games: Object.fromEntries(sortedEntries),
+  };
+}
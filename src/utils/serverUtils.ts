@@ -0,0 +1,229 @@
+/**
+ * Local report server: the HTML report, a JSON API and a server-sent events
+ * stream that lets an open report follow running checks
+ */
+
+import * as http from 'http';
+import { GameData } from '../types';
+
+/** SSE comment sent to idle streams so proxies do not drop them */
+const EVENTS_KEEPALIVE_MS = 30000;
+
+/**
+ * A request the server refuses, with the HTTP status to answer
+ */
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * What the server serves; implemented by the `serve` command
+ */
+export interface ReportServerHandlers {
+  /** The HTML report of every game */
+  renderReport: () => string;
+  /** The Atom feed, or null when none has been written */
+  readFeed: () => string | null;
+  /** Every game with its current status, sorted by name */
+  listGames: () => GameData[];
+  /** Check one game now and return it updated; throws HttpError */
+  refreshGame: (appId: number) => Promise<GameData>;
+  /** Start checking every game in the background; throws HttpError */
+  startCheck: () => void;
+}
+
+/**
+ * Open server-sent event streams and what is published to them
+ */
+export class ServerEvents {
+  private readonly clients = new Set<http.ServerResponse>();
+  private readonly keepalive = setInterval(() => {
+    for (const client of this.clients) client.write(': keepalive\n\n');
+  }, EVENTS_KEEPALIVE_MS).unref();
+
+  /** Turn a response into an event stream */
+  add(res: http.ServerResponse): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write(': connected\n\n');
+    this.clients.add(res);
+    res.on('close', () => this.clients.delete(res));
+  }
+
+  publish(event: string, data: unknown): void {
+    const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+    for (const client of this.clients) client.write(message);
+  }
+
+  /** End every stream, e.g. before the server shuts down */
+  close(): void {
+    clearInterval(this.keepalive);
+    for (const client of this.clients) client.end();
+    this.clients.clear();
+  }
+}
+
+function send(
+  res: http.ServerResponse,
+  status: number,
+  contentType: string,
+  body: string
+): void {
+  res.writeHead(status, {
+    'Content-Type': `${contentType}; charset=utf-8`,
+    'Cache-Control': 'no-store',
+  });
+  res.end(body);
+}
+
+function sendJson(
+  res: http.ServerResponse,
+  status: number,
+  body: unknown
+): void {
+  send(res, status, 'application/json', `${JSON.stringify(body, null, 2)}\n`);
+}
+
+/**
+ * Browsers send an Origin with cross-site POSTs; only the report's own page
+ * may start checks
+ */
+function checkSameOrigin(req: http.IncomingMessage): void {
+  const origin = req.headers.origin;
+  if (!origin) return;
+  let host: string | undefined;
+  try {
+    host = new URL(origin).host;
+  } catch {
+    host = undefined;
+  }
+  if (host !== req.headers.host) {
+    throw new HttpError(403, `Requests from ${origin} are not allowed`);
+  }
+}
+
+/**
+ * Host headers the server answers to: the bound host or localhost, on the
+ * bound port. Anything else may be a DNS-rebinding page reading the API.
+ */
+function getAllowedHosts(host: string, port: number): Set<string> {
+  const names = [host.toLowerCase(), 'localhost', '127.0.0.1', '[::1]'].map(
+    (name) => (name.includes(':') && !name.startsWith('[') ? `[${name}]` : name)
+  );
+  return new Set(
+    names.flatMap((name) =>
+      port === 80 ? [name, `${name}:80`] : [`${name}:${port}`]
+    )
+  );
+}
+
+function checkHost(req: http.IncomingMessage, allowed: Set<string>): void {
+  const host = req.headers.host?.toLowerCase();
+  if (!host || !allowed.has(host)) {
+    throw new HttpError(403, `Host ${host ?? '(none)'} is not allowed`);
+  }
+}
+
+async function route(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  handlers: ReportServerHandlers,
+  events: ServerEvents,
+  allowedHosts: Set<string>
+): Promise<void> {
+  checkHost(req, allowedHosts);
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  const method = req.method ?? 'GET';
+  const allow = (...methods: string[]) => {
+    if (!methods.includes(method)) {
+      throw new HttpError(405, `${method} is not supported on ${pathname}`);
+    }
+    if (method === 'POST') checkSameOrigin(req);
+  };
+
+  if (pathname === '/' || pathname === '/index.html') {
+    allow('GET');
+    return send(res, 200, 'text/html', handlers.renderReport());
+  }
+  if (pathname === '/feed.xml') {
+    allow('GET');
+    const feed = handlers.readFeed();
+    if (feed == null) throw new HttpError(404, 'No feed has been written yet');
+    return send(res, 200, 'application/atom+xml', feed);
+  }
+  if (pathname === '/api/events') {
+    allow('GET');
+    return events.add(res);
+  }
+  if (pathname === '/api/games') {
+    allow('GET');
+    return sendJson(res, 200, { Games: handlers.listGames() });
+  }
+  if (pathname === '/api/check') {
+    allow('POST');
+    handlers.startCheck();
+    return sendJson(res, 202, { Started: true });
+  }
+
+  const match = /^\/api\/games\/([^/]+)(\/refresh)?$/.exec(pathname);
+  if (match) {
+    if (!/^\d+$/.test(match[1])) {
+      throw new HttpError(400, `"${match[1]}" is not an AppID`);
+    }
+    const appId = parseInt(match[1], 10);
+    if (match[2]) {
+      allow('POST');
+      return sendJson(res, 200, await handlers.refreshGame(appId));
+    }
+    allow('GET');
+    const game = handlers.listGames().find((g) => g.AppID === appId);
+    if (!game) throw new HttpError(404, `AppID ${appId} is not tracked`);
+    return sendJson(res, 200, game);
+  }
+
+  throw new HttpError(404, `Nothing at ${pathname}`);
+}
+
+/**
+ * Start serving on host:port. Resolves once listening; rejects when the
+ * port cannot be bound.
+ */
+export function startReportServer(
+  handlers: ReportServerHandlers,
+  events: ServerEvents,
+  host: string,
+  port: number
+): Promise<http.Server> {
+  let allowedHosts = getAllowedHosts(host, port);
+  const server = http.createServer((req, res) => {
+    route(req, res, handlers, events, allowedHosts).catch((error) => {
+      const status = error instanceof HttpError ? error.status : 500;
+      if (status === 500) console.error(`${req.method} ${req.url}:`, error);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      sendJson(res, status, { Error: (error as Error).message });
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', (error) =>
+      reject(new Error(`Could not serve on ${host}:${port}: ${error.message}`))
+    );
+    server.listen(port, host, () => {
+      // Port 0 binds a free port; allow the one actually used.
+      const address = server.address();
+      if (address && typeof address === 'object') {
+        allowedHosts = getAllowedHosts(host, address.port);
+      }
+      resolve(server);
+    });
+  });
+}
@@ -0,0 +1,151 @@
+/**
+ * Game status: deciding the status after a check and how renderers show it
+ */
+
+import { FetchFailure, GameData, GameStatus, GameStatusCode } from '../types';
+
+/**
+ * Coarse status used for the report's filters and totals
+ */
+export type StatusKind = 'ok' | 'update' | 'error';
+
+export interface StatusDisplay {
+  Icon: string;
+  Label: string;
+  Kind: StatusKind;
+}
+
+export const GAME_STATUSES: Record<GameStatusCode, StatusDisplay> = {
+  'up-to-date': { Icon: '✅', Label: 'Up to date', Kind: 'ok' },
+  'update-available': { Icon: '⚠️', Label: 'Update available', Kind: 'update' },
+  ahead: { Icon: '⏩', Label: 'Ahead of Steam', Kind: 'ok' },
+  'build-unknown': { Icon: '❓', Label: 'Build unknown', Kind: 'error' },
+  'reviews-failed': { Icon: '💬', Label: 'Review fetch failed', Kind: 'error' },
+  removed: { Icon: '🚫', Label: 'Removed from Steam', Kind: 'error' },
+  'no-backup': { Icon: '🗑️', Label: 'No local backup', Kind: 'error' },
+};
+
+export function isGameStatusCode(value: unknown): value is GameStatusCode {
+  return (
+    typeof value === 'string' &&
+    Object.prototype.hasOwnProperty.call(GAME_STATUSES, value)
+  );
+}
+
+/**
+ * What a check found out beyond the stored builds
+ */
+export interface StatusFacts {
+  /** Steam returned app info without store data or branches */
+  Removed?: boolean;
+  /** Fetches that failed at the check */
+  Failures?: FetchFailure[];
+}
+
+const FAILURE_TEXT: Record<FetchFailure['Kind'], string> = {
+  timeout: 'timed out',
+  'rate-limited': 'rate limited by Steam',
+  'parse-error': 'unreadable answer',
+  'access-denied': 'not visible to anonymous access',
+  unavailable: 'Steam unavailable',
+  network: 'network error',
+  'not-installed': 'SteamCMD not installed',
+};
+
+/**
+ * Short explanation of a failed fetch, e.g. "rate limited by Steam: appreviews HTTP 429"
+ */
+export function describeFailure(failure: FetchFailure): string {
+  return `${FAILURE_TEXT[failure.Kind]}: ${failure.Message}`;
+}
+
+/**
+ * Status of a game from its builds and the facts of the last check, most
+ * severe first
+ */
+export function getGameStatus(
+  game: GameData,
+  facts: StatusFacts = {}
+): GameStatus {
+  const branch = game.Branch ?? 'public';
+  const installed = game.InstalledBuild;
+  const latest = game.LatestBuild;
+  const failure = (source: FetchFailure['Source']) =>
+    facts.Failures?.find((f) => f.Source === source);
+
+  if (facts.Removed) {
+    return {
+      Code: 'removed',
+      Reason: 'Steam returned no store data or branches for this app',
+    };
+  }
+  if (game.BackupMissingSince) {
+    return {
+      Code: 'no-backup',
+      Reason: `The local copy of build ${
+        installed ?? 'unknown'
+      } is gone since ${game.BackupMissingSince.substring(0, 10)}`,
+    };
+  }
+  if (latest == null) {
+    const buildFailure = failure('steamcmd');
+    return {
+      Code: 'build-unknown',
+      Reason: `Could not fetch the latest build on ${branch}${
+        buildFailure ? ` (${describeFailure(buildFailure)})` : ''
+      }`,
+    };
+  }
+  if (installed == null) {
+    return { Code: 'build-unknown', Reason: 'No installed build recorded' };
+  }
+  if (latest > installed) {
+    return {
+      Code: 'update-available',
+      Reason: `Installed build ${installed} is older than ${latest} on ${branch}`,
+    };
+  }
+  if (installed > latest) {
+    return {
+      Code: 'ahead',
+      Reason: `Installed build ${installed} is newer than ${latest} on ${branch}`,
+    };
+  }
+  const reviewsFailure = failure('reviews');
+  if (reviewsFailure) {
+    return {
+      Code: 'reviews-failed',
+      Reason: `Could not fetch reviews (${describeFailure(reviewsFailure)})`,
+    };
+  }
+  return {
+    Code: 'up-to-date',
+    Reason: `Installed build ${installed} is the latest on ${branch}`,
+  };
+}
+
+/**
+ * Facts recorded by the last check, for re-deciding a stored status after
+ * the installed build changed without a new check
+ */
+export function getStoredStatusFacts(game: GameData): StatusFacts {
+  return {
+    Removed: game.Status?.Code === 'removed',
+    Failures: game.FetchFailures,
+  };
+}
+
+/**
+ * Display details of a status; games never checked count as build unknown
+ */
+export function getStatusDisplay(status?: GameStatus): StatusDisplay {
+  return GAME_STATUSES[status?.Code ?? 'build-unknown'];
+}
+
+/**
+ * Icon and label, e.g. "⚠️ Update available", for plain-text renderers
+ */
+export function formatStatus(status?: GameStatus): string {
+  const { Icon, Label } = getStatusDisplay(status);
+  return `${Icon} ${Label}`;
+}
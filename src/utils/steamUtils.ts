@@ -3,9 +3,36 @@
  */
 
 import { execFile } from 'child_process';
+import * as http from 'http';
 import * as https from 'https';
 import { promisify } from 'util';
-import { LatestBuildInfo } from '../types';
+import {
+  FetchFailure,
+  GameData,
+  LatestBuildInfo,
+  SteamAppInfo,
+  SteamBranchInfo,
+  SteamBuildInfo,
+  SteamOptions,
+  VdfObject,
+} from '../types';
+import {
+  getVdfNumber,
+  getVdfObject,
+  getVdfString,
+  isVdfObject,
+  parseVdfEntryAt,
+  VdfParseError,
+} from './vdfUtils';
+
+import {
+  DEFAULT_STEAMCMD_RETRIES,
+  FetchError,
+  parseRetryAfter,
+  toFetchFailure,
+  withRetry,
+} from './retryUtils';
+import { isPlainObject } from './schemaUtils';
 
 const execFileAsync = promisify(execFile);
 
@@ -35,15 +62,75 @@ function extractMatchingLines(
   return matches;
 }
 
+/**
+ * PICS change numbers from the `AppID : <id>, change number : <n>/…` header
+ * line SteamCMD prints before each app's key/value block. Cheap to run over
+ * the whole session output, without parsing any app info.
+ */
+export function parseChangeNumbers(content: string): Map<number, number> {
+  const changeNumbers = new Map<number, number>();
+  const pattern = /AppID\s*:\s*(\d+)\s*,\s*change number\s*:\s*(\d+)/gi;
+  for (const match of content.matchAll(pattern)) {
+    changeNumbers.set(Number(match[1]), Number(match[2]));
+  }
+  return changeNumbers;
+}
+
+function appInfoRootPattern(appId: number): RegExp {
+  return new RegExp(`^[ \\t]*"${appId}"[ \\t]*\\r?$`, 'm');
+}
+
+/**
+ * Locate and parse the `"<appid>" { ... }` block in app_info_print output
+ */
+export function parseAppInfo(
+  content: string,
+  appId: number
+): SteamAppInfo | null {
+  const match = appInfoRootPattern(appId).exec(content);
+  if (!match) return null;
+
+  let raw: VdfObject;
+  try {
+    raw = parseVdfEntryAt(content, match.index).value;
+  } catch (e) {
+    if (e instanceof VdfParseError) {
+      console.log(`Failed to parse app info for AppID ${appId}: ${e.message}`);
+      return null;
+    }
+    throw e;
+  }
+
+  const branches: Record<string, SteamBranchInfo> = {};
+  const branchesNode = getVdfObject(raw, 'depots.branches');
+  for (const [name, node] of Object.entries(branchesNode ?? {})) {
+    if (!isVdfObject(node)) continue;
+    branches[name] = {
+      BuildID: getVdfNumber(node, 'buildid'),
+      TimeUpdated: getVdfNumber(node, 'timeupdated'),
+      Description: getVdfString(node, 'description') ?? undefined,
+      PasswordRequired: getVdfString(node, 'pwdrequired') === '1',
+    };
+  }
+
+  return {
+    AppID: appId,
+    Name: getVdfString(raw, 'common.name'),
+    Type: getVdfString(raw, 'common.type'),
+    Branches: branches,
+    ChangeNumber: parseChangeNumbers(content).get(appId) ?? null,
+    Raw: raw,
+  };
+}
+
 function logMissingBuildIdDebug(appId: number, first: string, retry?: string) {
   const combined = retry != null ? retry : first;
   const firstLen = first.length;
   const retryLen = retry?.length;
-  const hasQuotedRoot = combined.includes(`"${appId}"`);
-  const hasBuildIdLiteral = /"buildid"\s+"\d+"/.test(combined);
-  const hasDepotsSection = /"depots"\s*\{/.test(combined);
-  const hasBranchesSection = /"branches"\s*\{/.test(combined);
-  const hasPublicBranch = /"public"\s*\{/.test(combined);
+  const appInfo = parseAppInfo(combined, appId);
+  const depots = getVdfObject(appInfo?.Raw, 'depots');
+  const branches = getVdfObject(depots ?? undefined, 'branches');
+  const branchEntries = Object.entries(appInfo?.Branches ?? {});
 
   const changeLine = extractMatchingLines(
     combined,
@@ -62,12 +149,31 @@ function logMissingBuildIdDebug(appId: number, first: string, retry?: string) {
   console.log(
     `Output length: ${firstLen}${retry != null ? ` (retry: ${retryLen})` : ''}`
   );
-  console.log(`Contains quoted root "${appId}": ${hasQuotedRoot}`);
-  console.log(`Contains any "buildid" key: ${hasBuildIdLiteral}`);
+  console.log(`Parsed app info block "${appId}": ${appInfo != null}`);
+  if (appInfo) {
+    console.log(`Top-level sections: ${Object.keys(appInfo.Raw).join(', ')}`);
+    console.log(
+      `common.name=${appInfo.Name ?? '(none)'} common.type=${
+        appInfo.Type ?? '(none)'
+      }`
+    );
+  }
   console.log(
-    `Has depots/branches/public sections: depots=${hasDepotsSection} branches=${hasBranchesSection} public=${hasPublicBranch}`
+    `Has depots/branches sections: depots=${depots != null} branches=${
+      branches != null
+    }`
   );
-  if (!hasDepotsSection) {
+  if (branchEntries.length) {
+    console.log('Branches:');
+    for (const [name, branch] of branchEntries) {
+      console.log(
+        `  ${name}: buildid=${branch.BuildID ?? '(none)'} timeupdated=${
+          branch.TimeUpdated ?? '(none)'
+        }${branch.PasswordRequired ? ' (password required)' : ''}`
+      );
+    }
+  }
+  if (!depots) {
     console.log(
       'Likely cause: SteamCMD did not include depot/branch data for this app (often an anonymous-access restriction).'
     );
@@ -89,208 +195,737 @@ function logMissingBuildIdDebug(appId: number, first: string, retry?: string) {
   for (const l of extractLines(combined, 40, true)) console.log(l);
 
   console.log(
-    'Tip: rerun with STEAMCMD_RATING_DEBUG=1 for extra HTTP/appreviews diagnostics.'
+    'Tip: set "RatingDebug": true (or STEAMCMD_RATING_DEBUG=1) for extra HTTP/appreviews diagnostics.'
   );
   console.log('--- end debug ---');
 }
 
-type SteamReviewSummary = {
+export type SteamReviewSummary = {
   ratingPercent: number | null;
   total: number | null;
   positive: number | null;
   negative: number | null;
   summary: string | null;
+  /** Why the fields are null, when the fetch failed */
+  failure?: FetchFailure;
 };
 
-function fetchSteamReviewSummary(appId: number): Promise<SteamReviewSummary> {
-  // SteamDB “Rating” is derived from Steam user review stats.
-  // This endpoint is public and returns totals + a text summary like “Very Positive”.
-  const url = `https://store.steampowered.com/appreviews/${appId}?json=1&filter=summary&language=all&purchase_type=all`;
+const NO_REVIEWS: SteamReviewSummary = {
+  ratingPercent: null,
+  total: null,
+  positive: null,
+  negative: null,
+  summary: null,
+};
+
+/**
+ * Raw answer of a store API (appreviews, appdetails), as received
+ */
+export interface StoreResponse {
+  Status: number;
+  /** Retry-After header, if any */
+  RetryAfter?: string;
+  Body: string;
+}
 
-  return new Promise((resolve) => {
-    const req = https.get(
+/**
+ * Raw answers from Steam, before any parsing. The live source runs SteamCMD
+ * and calls the store; build info providers may record or replace them.
+ */
+export interface SteamRawSource {
+  /** Combined app_info_print output; rejects with a FetchError */
+  getAppInfoOutput: (appIds: number[]) => Promise<string>;
+  /**
+   * appreviews answer of any HTTP status, lifetime or over the last
+   * `dayRange` days; rejects with a FetchError
+   */
+  getReviewsResponse: (
+    appId: number,
+    dayRange?: number
+  ) => Promise<StoreResponse>;
+  /** appdetails answer of any HTTP status; rejects with a FetchError */
+  getAppDetailsResponse: (appId: number) => Promise<StoreResponse>;
+}
+
+/**
+ * One store API request. Rejects with a classified FetchError when no
+ * complete answer arrives.
+ */
+export function requestSteamStore(
+  api: string,
+  url: string,
+  appId: number,
+  options: Partial<SteamOptions>
+): Promise<StoreResponse> {
+  const debug = options.RatingDebug ?? false;
+
+  return new Promise((resolve, reject) => {
+    const client = url.startsWith('https:') ? https : http;
+    const req = client.get(
       url,
       { headers: { 'User-Agent': 'SteamVersionChecker' } },
       (res) => {
-        const status = res.statusCode ?? 0;
+        // A connection dropped mid-body never emits 'end'.
+        const cutOff = (detail: string) =>
+          reject(new FetchError(`${api} ${detail}`, 'network'));
         let body = '';
         res.setEncoding('utf8');
         res.on('data', (chunk) => (body += chunk));
         res.on('end', () => {
-          if (status < 200 || status >= 300) {
-            if (process.env.STEAMCMD_RATING_DEBUG === '1') {
-              console.log(`appreviews HTTP ${status} for AppID ${appId}`);
-              console.log(body.substring(0, 500));
-            }
-            resolve({
-              ratingPercent: null,
-              total: null,
-              positive: null,
-              negative: null,
-              summary: null,
-            });
-            return;
-          }
-
-          try {
-            const json = JSON.parse(body);
-            const qs = json?.query_summary;
-            const total =
-              typeof qs?.total_reviews === 'number' ? qs.total_reviews : null;
-            const positive =
-              typeof qs?.total_positive === 'number' ? qs.total_positive : null;
-            const negative =
-              typeof qs?.total_negative === 'number' ? qs.total_negative : null;
-            const summary =
-              typeof qs?.review_score_desc === 'string'
-                ? qs.review_score_desc
-                : null;
-
-            const ratingPercent =
-              total && positive != null ? (positive / total) * 100 : null;
-
-            resolve({ ratingPercent, total, positive, negative, summary });
-          } catch (e) {
-            if (process.env.STEAMCMD_RATING_DEBUG === '1') {
-              console.log(
-                `Failed to parse appreviews JSON for AppID ${appId}:`,
-                e
-              );
-              console.log(body.substring(0, 500));
-            }
-            resolve({
-              ratingPercent: null,
-              total: null,
-              positive: null,
-              negative: null,
-              summary: null,
-            });
-          }
+          const retryAfter = res.headers['retry-after'];
+          resolve({
+            Status: res.statusCode ?? 0,
+            RetryAfter: Array.isArray(retryAfter) ? retryAfter[0] : retryAfter,
+            Body: body,
+          });
+        });
+        res.on('error', (err) => cutOff(`response failed: ${err.message}`));
+        res.on('aborted', () => cutOff('response was aborted'));
+        res.on('close', () => {
+          if (!res.complete) cutOff('response was cut off');
         });
       }
     );
 
     req.on('error', (err) => {
-      if (process.env.STEAMCMD_RATING_DEBUG === '1') {
-        console.log(`appreviews request error for AppID ${appId}:`, err);
+      if (debug) {
+        console.log(`${api} request error for AppID ${appId}:`, err);
       }
-      resolve({
-        ratingPercent: null,
-        total: null,
-        positive: null,
-        negative: null,
-        summary: null,
-      });
+      reject(
+        err instanceof FetchError
+          ? err
+          : new FetchError(`${api} request failed: ${err.message}`, 'network')
+      );
     });
 
-    req.setTimeout(15000, () => {
-      req.destroy(new Error('Timeout'));
+    const timeoutMs = options.HttpTimeoutMs ?? DEFAULT_HTTP_TIMEOUT_MS;
+    req.setTimeout(timeoutMs, () => {
+      req.destroy(
+        new FetchError(`${api} gave no answer in ${timeoutMs} ms`, 'timeout')
+      );
     });
   });
 }
 
-async function runSteamCmdAppInfo(
+/**
+ * One appreviews request, for lifetime stats or the last `dayRange` days
+ */
+function requestSteamReviews(
+  appId: number,
+  options: Partial<SteamOptions>,
+  dayRange?: number
+): Promise<StoreResponse> {
+  // SteamDB “Rating” is derived from Steam user review stats.
+  // This endpoint is public and returns totals + a text summary like “Very Positive”.
+  // With day_range (only honoured by filter=all) the totals cover that range.
+  const filter =
+    dayRange == null
+      ? 'filter=summary'
+      : `filter=all&day_range=${dayRange}&num_per_page=0`;
+  return requestSteamStore(
+    'appreviews',
+    `https://store.steampowered.com/appreviews/${appId}?json=1&${filter}&language=all&purchase_type=all`,
+    appId,
+    options
+  );
+}
+
+/**
+ * One appdetails request for the store page fields the report uses
+ */
+function requestSteamAppDetails(
+  appId: number,
+  options: Partial<SteamOptions>
+): Promise<StoreResponse> {
+  return requestSteamStore(
+    'appdetails',
+    `https://store.steampowered.com/api/appdetails?appids=${appId}&filters=basic,release_date,developers,publishers,genres,platforms&l=english`,
+    appId,
+    options
+  );
+}
+
+/**
+ * Parsed JSON body of a store API answer. Throws a classified FetchError for
+ * error statuses and unreadable bodies.
+ */
+export function parseStoreResponse(
+  api: string,
+  appId: number,
+  response: StoreResponse,
+  debug = false
+): unknown {
+  const { Status: status, Body: body } = response;
+  if (status < 200 || status >= 300) {
+    if (debug) {
+      console.log(`${api} HTTP ${status} for AppID ${appId}`);
+      console.log(body.substring(0, 500));
+    }
+    throw new FetchError(
+      `${api} HTTP ${status}`,
+      status === 429
+        ? 'rate-limited'
+        : status === 401 || status === 403
+        ? 'access-denied'
+        : 'unavailable',
+      parseRetryAfter(response.RetryAfter)
+    );
+  }
+
+  try {
+    return JSON.parse(body);
+  } catch (e) {
+    if (debug) {
+      console.log(`Failed to parse ${api} JSON for AppID ${appId}:`, e);
+      console.log(body.substring(0, 500));
+    }
+    throw new FetchError(
+      `${api} JSON could not be parsed: ${(e as Error).message}`,
+      'parse-error'
+    );
+  }
+}
+
+/**
+ * Review summary from an appreviews answer. Throws a classified FetchError
+ * for error statuses and unusable bodies.
+ */
+export function parseSteamReviews(
   appId: number,
-  steamCmdPath: string
+  response: StoreResponse,
+  debug = false
+): SteamReviewSummary {
+  const json = parseStoreResponse('appreviews', appId, response, debug);
+  const success = isPlainObject(json) ? json.success : undefined;
+  if (!isPlainObject(json) || success !== 1) {
+    throw new FetchError(
+      `appreviews answered success=${success}`,
+      'unavailable'
+    );
+  }
+
+  const qs = isPlainObject(json.query_summary) ? json.query_summary : {};
+  const total = typeof qs.total_reviews === 'number' ? qs.total_reviews : null;
+  const positive =
+    typeof qs.total_positive === 'number' ? qs.total_positive : null;
+  const negative =
+    typeof qs.total_negative === 'number' ? qs.total_negative : null;
+  const summary =
+    typeof qs.review_score_desc === 'string' ? qs.review_score_desc : null;
+
+  const ratingPercent =
+    total && positive != null ? (positive / total) * 100 : null;
+
+  return { ratingPercent, total, positive, negative, summary };
+}
+
+/**
+ * Review summary for an app, lifetime or over the last `dayRange` days,
+ * retried with backoff. Never rejects: on failure the fields are null and
+ * `failure` says why.
+ */
+export async function fetchSteamReviewSummary(
+  appId: number,
+  source: SteamRawSource,
+  options: Partial<SteamOptions> = {},
+  dayRange?: number
+): Promise<SteamReviewSummary> {
+  try {
+    return await withRetry(
+      'Steam store reviews',
+      async () =>
+        parseSteamReviews(
+          appId,
+          await source.getReviewsResponse(appId, dayRange),
+          options.RatingDebug
+        ),
+      options
+    );
+  } catch (error) {
+    const failure = toFetchFailure('reviews', error);
+    console.log(
+      `${
+        dayRange == null ? 'Reviews' : `Reviews of the last ${dayRange} days`
+      } for AppID ${appId} unavailable (${failure.Kind}): ${failure.Message}`
+    );
+    return { ...NO_REVIEWS, failure };
+  }
+}
+
+/**
+ * Maximum number of AppIDs printed by one SteamCMD session. Keeps each
+ * invocation's output and runtime bounded for large libraries.
+ */
+const STEAMCMD_BATCH_SIZE = 100;
+
+/**
+ * Base timeouts when no configuration is given; SteamCMD additionally gets
+ * 2 s per printed app
+ */
+const DEFAULT_STEAMCMD_TIMEOUT_MS = 60000;
+const DEFAULT_HTTP_TIMEOUT_MS = 15000;
+
+async function runSteamCmd(
+  args: string[],
+  appCount: number,
+  perAppMs: number,
+  steamCmdPath: string,
+  options: Partial<SteamOptions>
 ): Promise<string> {
-  const args = [
-    '+login',
-    'anonymous',
-    '+app_info_update',
-    '1',
-    '+app_info_print',
-    String(appId),
-    '+quit',
-  ];
+  console.log(`Running SteamCMD: ${steamCmdPath} ${args.join(' ')}`);
 
+  let output: string;
+  let timedOut = false;
   try {
     const { stdout, stderr } = await execFileAsync(steamCmdPath, args, {
-      timeout: 60000,
-      maxBuffer: 20 * 1024 * 1024,
+      timeout:
+        (options.SteamCmdTimeoutMs ?? DEFAULT_STEAMCMD_TIMEOUT_MS) +
+        appCount * perAppMs,
+      maxBuffer: 20 * 1024 * 1024 + appCount * 1024 * 1024,
       windowsHide: true,
     });
-    return `${stdout ?? ''}\n${stderr ?? ''}`;
+    output = `${stdout ?? ''}\n${stderr ?? ''}`;
   } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      throw new FetchError(
+        `SteamCMD not found at ${steamCmdPath}`,
+        'not-installed'
+      );
+    }
     // SteamCMD often exits non-zero even when output is usable.
-    const stdout = error?.stdout ?? '';
-    const stderr = error?.stderr ?? '';
-    return `${stdout}\n${stderr}`;
+    timedOut = error?.killed === true;
+    output = `${error?.stdout ?? ''}\n${error?.stderr ?? ''}`;
+  }
+
+  const failure = classifySteamCmdOutput(output, timedOut);
+  if (failure) throw failure;
+  return output;
+}
+
+function runSteamCmdAppInfo(
+  appIds: number[],
+  steamCmdPath: string,
+  options: Partial<SteamOptions>
+): Promise<string> {
+  const args = ['+login', 'anonymous', '+app_info_update', '1'];
+  for (const appId of appIds) {
+    args.push('+app_info_print', String(appId));
   }
+  args.push('+quit');
+  return runSteamCmd(args, appIds.length, 2000, steamCmdPath, options);
 }
 
 /**
- * Get latest build information from Steam using steamcmd
+ * Session-level failure of a SteamCMD run, or null when its output may hold
+ * app info. A timeout that still printed some apps is kept as usable.
  */
-export async function getLatestBuild(
+function classifySteamCmdOutput(
+  output: string,
+  timedOut: boolean
+): FetchError | null {
+  if (/^[^"\n]*(FAILED|ERROR)[^\n]*rate\s*limit/im.test(output)) {
+    return new FetchError('SteamCMD login was rate limited', 'rate-limited');
+  }
+  if (
+    /FAILED.*No Connection|Connection to Steam servers failed/i.test(output)
+  ) {
+    return new FetchError('SteamCMD could not reach Steam', 'network');
+  }
+  if (
+    /^[^"\n]*(Login Failure|Failed to log in|FAILED[^\n]*login)/im.test(output)
+  ) {
+    return new FetchError(
+      'SteamCMD anonymous login was refused',
+      'access-denied'
+    );
+  }
+  if (timedOut && parseChangeNumbers(output).size === 0) {
+    return new FetchError(
+      'SteamCMD timed out before printing any app info',
+      'timeout'
+    );
+  }
+  return null;
+}
+
+/**
+ * Why an app has no public build id in otherwise usable SteamCMD output
+ */
+function classifyMissingBuild(
+  content: string,
   appId: number,
-  steamCmdPath: string
-): Promise<LatestBuildInfo> {
-  try {
+  appInfo: SteamAppInfo | null
+): FetchFailure | undefined {
+  const failure = (Kind: FetchFailure['Kind'], Message: string) => ({
+    Source: 'steamcmd' as const,
+    Kind,
+    Message,
+  });
+  if (!appInfo) {
+    return appInfoRootPattern(appId).test(content)
+      ? failure('parse-error', 'SteamCMD app info could not be parsed')
+      : failure('unavailable', 'SteamCMD printed no app info for this app');
+  }
+  if (isRemovedApp(appInfo)) return undefined;
+  if (!getVdfObject(appInfo.Raw, 'depots')) {
+    return failure(
+      'access-denied',
+      'No depot data for anonymous SteamCMD access'
+    );
+  }
+  return failure(
+    'access-denied',
+    'No public build id visible to anonymous SteamCMD access'
+  );
+}
+
+/**
+ * Split combined app_info_print output into one chunk per AppID.
+ * A chunk starts at the app's "AppID : N, change number" header (or its
+ * quoted root when no header was printed) and runs up to the next chunk.
+ */
+export function splitAppInfoOutput(
+  content: string,
+  appIds: number[]
+): Map<number, string> {
+  const starts: { appId: number; index: number }[] = [];
+
+  for (const appId of appIds) {
+    const header = new RegExp(
+      `^.*AppID\\s*:\\s*${appId}\\s*,\\s*change number`,
+      'im'
+    ).exec(content);
+    const root = appInfoRootPattern(appId).exec(content);
+    const index = header?.index ?? root?.index;
+    if (index != null) starts.push({ appId, index });
+  }
+
+  starts.sort((a, b) => a.index - b.index);
+
+  const chunks = new Map<number, string>();
+  starts.forEach(({ appId, index }, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1].index : content.length;
+    chunks.set(appId, content.substring(index, end));
+  });
+  return chunks;
+}
+
+function toSteamBuildInfo(appInfo: SteamAppInfo | null): SteamBuildInfo {
+  return {
+    BuildID: appInfo?.Branches.public?.BuildID ?? null,
+    TimeUpdated: appInfo?.Branches.public?.TimeUpdated ?? null,
+    AppInfo: appInfo,
+    ChangeNumber: appInfo?.ChangeNumber ?? null,
+  };
+}
+
+/**
+ * The live source: SteamCMD for app info and the store for reviews
+ */
+export function createSteamSource(
+  steamCmdPath: string,
+  options: Partial<SteamOptions> = {}
+): SteamRawSource {
+  return {
+    getAppInfoOutput: (appIds) =>
+      runSteamCmdAppInfo(appIds, steamCmdPath, options),
+    getReviewsResponse: (appId, dayRange) =>
+      requestSteamReviews(appId, options, dayRange),
+    getAppDetailsResponse: (appId) => requestSteamAppDetails(appId, options),
+  };
+}
+
+/**
+ * Retry options for SteamCMD sessions, which retry less often than store
+ * requests
+ */
+function getSteamCmdRetryOptions(
+  options: Partial<SteamOptions>
+): Partial<SteamOptions> {
+  return {
+    ...options,
+    Retries: options.SteamCmdRetries ?? DEFAULT_STEAMCMD_RETRIES,
+  };
+}
+
+async function runSteamCmdBatch(
+  appIds: number[],
+  source: SteamRawSource,
+  options: Partial<SteamOptions>,
+  knownChangeNumbers?: Map<number, number>
+): Promise<{ infos: Map<number, SteamBuildInfo>; content: string }> {
+  const content = await withRetry(
+    'SteamCMD',
+    () => source.getAppInfoOutput(appIds),
+    getSteamCmdRetryOptions(options)
+  );
+  console.log(`SteamCMD output length: ${content.length} bytes`);
+
+  // Each app's data follows its change number header: apps whose change
+  // number has not moved are not parsed, retried or refreshed.
+  const changeNumbers = parseChangeNumbers(content);
+  const infos = new Map<number, SteamBuildInfo>();
+  let unchanged = 0;
+  for (const appId of appIds) {
+    const changeNumber = changeNumbers.get(appId);
+    if (
+      changeNumber != null &&
+      knownChangeNumbers?.get(appId) === changeNumber
+    ) {
+      infos.set(appId, {
+        BuildID: null,
+        TimeUpdated: null,
+        AppInfo: null,
+        ChangeNumber: changeNumber,
+        Unchanged: true,
+      });
+      unchanged++;
+      continue;
+    }
+    const appInfo = parseAppInfo(content, appId);
+    const info = toSteamBuildInfo(appInfo);
+    if (info.BuildID == null) {
+      info.Failure = classifyMissingBuild(content, appId, appInfo);
+    }
+    infos.set(appId, info);
+  }
+  if (unchanged) {
     console.log(
-      `Running SteamCMD: ${steamCmdPath} +login anonymous +app_info_update 1 +app_info_print ${appId} +quit`
+      `${unchanged} of ${appIds.length} app(s) unchanged since the last check (same change number)`
     );
+  }
+  return { infos, content };
+}
 
-    const firstContent = await runSteamCmdAppInfo(appId, steamCmdPath);
-    let content = firstContent;
-    console.log(`SteamCMD output length: ${content.length} bytes`);
-
-    let buildId: number | null = null;
-    let timeUpdated: number | null = null;
-
-    // Parse buildid
-    const buildIdMatch = content.match(/"buildid"\s+"(\d+)"/);
-    if (buildIdMatch) {
-      buildId = parseInt(buildIdMatch[1], 10);
-      console.log(`Found buildid: ${buildId}`);
-    } else {
-      console.log('No buildid found in output');
-      if (content.length > 0) {
-        console.log('Output preview:', content.substring(0, 500));
-      }
+/**
+ * Get public-branch build information for many apps with as few SteamCMD
+ * sessions as possible. Apps that come back without a buildid are retried
+ * once, together, in a second session. Apps whose printed change number
+ * equals the one in knownChangeNumbers are returned as Unchanged without
+ * being parsed.
+ */
+export async function getLatestBuilds(
+  appIds: number[],
+  source: SteamRawSource,
+  options: Partial<SteamOptions> = {},
+  knownChangeNumbers?: Map<number, number>
+): Promise<Map<number, SteamBuildInfo>> {
+  const results = new Map<number, SteamBuildInfo>();
+  const uniqueIds = Array.from(new Set(appIds));
+
+  for (let i = 0; i < uniqueIds.length; i += STEAMCMD_BATCH_SIZE) {
+    const batch = uniqueIds.slice(i, i + STEAMCMD_BATCH_SIZE);
+
+    try {
+      const first = await runSteamCmdBatch(
+        batch,
+        source,
+        options,
+        knownChangeNumbers
+      );
+      const missing = batch.filter((id) => {
+        const info = first.infos.get(id);
+        return !info?.Unchanged && info?.BuildID == null;
+      });
+      for (const [id, info] of first.infos) results.set(id, info);
+
+      if (missing.length === 0) continue;
 
       // Retry once: SteamCMD/appinfo can be flaky for some apps.
-      console.log(`Retrying SteamCMD app_info_print for AppID ${appId}...`);
-      const retryContent = await runSteamCmdAppInfo(appId, steamCmdPath);
-      content = retryContent;
-      console.log(`SteamCMD output length (retry): ${content.length} bytes`);
-      const retryMatch = content.match(/"buildid"\s+"(\d+)"/);
-      if (retryMatch) {
-        buildId = parseInt(retryMatch[1], 10);
-        console.log(`Found buildid (retry): ${buildId}`);
-      } else {
-        // Persistent missing buildid: log detailed diagnostics and dump output.
-        logMissingBuildIdDebug(appId, firstContent, retryContent);
+      console.log(
+        `No public buildid for ${
+          missing.length
+        } app(s), retrying: ${missing.join(', ')}`
+      );
+      const retry = await runSteamCmdBatch(missing, source, options);
+      const firstChunks = splitAppInfoOutput(first.content, missing);
+      const retryChunks = splitAppInfoOutput(retry.content, missing);
+
+      for (const appId of missing) {
+        const info = retry.infos.get(appId);
+        if (info?.BuildID != null) {
+          console.log(
+            `Found public buildid (retry) for ${appId}: ${info.BuildID}`
+          );
+          results.set(appId, info);
+        } else {
+          // Persistent missing buildid: log detailed diagnostics and dump output.
+          logMissingBuildIdDebug(
+            appId,
+            firstChunks.get(appId) ?? '',
+            retryChunks.get(appId) ?? ''
+          );
+          if (info?.AppInfo) results.set(appId, info);
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof FetchError)) throw error;
+      console.error(
+        `Error fetching build info for AppIDs ${batch.join(', ')}:`,
+        error.message
+      );
+      const Failure = toFetchFailure('steamcmd', error);
+      for (const appId of batch) {
+        if (!results.has(appId)) {
+          results.set(appId, { ...toSteamBuildInfo(null), Failure });
+        }
       }
     }
+  }
+
+  for (const appId of uniqueIds) {
+    if (!results.has(appId)) results.set(appId, toSteamBuildInfo(null));
+  }
+  return results;
+}
+
+export const DEFAULT_BRANCH = 'public';
+
+/**
+ * Whether SteamCMD answered for an app but without a common section or
+ * branches, as it does for apps removed from (or never on) the store
+ */
+export function isRemovedApp(
+  appInfo: SteamAppInfo | null | undefined
+): boolean {
+  return (
+    appInfo != null &&
+    appInfo.Name == null &&
+    appInfo.Type == null &&
+    Object.keys(appInfo.Branches).length === 0
+  );
+}
 
-    // Parse timeupdated
-    const timeUpdatedMatch = content.match(/"timeupdated"\s+"(\d+)"/);
-    if (timeUpdatedMatch) {
-      timeUpdated = parseInt(timeUpdatedMatch[1], 10);
+/**
+ * Estimated size of a Windows install in bytes: the summed maxsize of the
+ * app's own depots for Windows (or any OS) in English (or any language).
+ * DLC, shared and borrowed depots are left out. Null when no depot gives a
+ * size.
+ */
+export function getInstallSize(
+  appInfo: SteamAppInfo | null | undefined
+): number | null {
+  const depots = getVdfObject(appInfo?.Raw, 'depots');
+  let total: number | null = null;
+  for (const [key, depot] of Object.entries(depots ?? {})) {
+    if (!/^\d+$/.test(key) || !isVdfObject(depot)) continue;
+    if (
+      getVdfString(depot, 'dlcappid') != null ||
+      getVdfString(depot, 'depotfromapp') != null ||
+      getVdfString(depot, 'sharedinstall') === '1'
+    ) {
+      continue;
     }
+    const oslist = getVdfString(depot, 'config.oslist');
+    const language = getVdfString(depot, 'config.language');
+    if (oslist && !oslist.split(',').includes('windows')) continue;
+    if (language && language !== 'english') continue;
+    const size = getVdfNumber(depot, 'maxsize');
+    if (size != null) total = (total ?? 0) + size;
+  }
+  return total;
+}
 
-    // SteamDB-style rating (user review percent + counts)
-    const review = await fetchSteamReviewSummary(appId);
-
-    return {
-      BuildID: buildId,
-      TimeUpdated: timeUpdated,
-      RatingPercent: review.ratingPercent,
-      ReviewsTotal: review.total,
-      ReviewsPositive: review.positive,
-      ReviewsNegative: review.negative,
-      ReviewSummary: review.summary,
-    };
-  } catch (error) {
-    console.error(`Error fetching build info for AppID ${appId}:`, error);
-    return {
-      BuildID: null,
-      TimeUpdated: null,
-      RatingPercent: null,
-      ReviewsTotal: null,
-      ReviewsPositive: null,
-      ReviewsNegative: null,
-      ReviewSummary: null,
-    };
+/**
+ * List the branches, other than the tracked one, whose build is newer
+ */
+export function getNewerBranches(
+  appInfo: SteamAppInfo | null | undefined,
+  branch: string,
+  referenceBuild: number | null | undefined
+): string[] {
+  if (!appInfo || referenceBuild == null) return [];
+  return Object.entries(appInfo.Branches)
+    .filter(
+      ([name, info]) =>
+        name !== branch && info.BuildID != null && info.BuildID > referenceBuild
+    )
+    .sort(([, a], [, b]) => (b.BuildID ?? 0) - (a.BuildID ?? 0))
+    .map(([name]) => name);
+}
+
+/**
+ * Combine SteamCMD build data for the tracked branch and review stats into
+ * a LatestBuildInfo
+ */
+export function toLatestBuildInfo(
+  build: SteamBuildInfo | undefined,
+  review: SteamReviewSummary,
+  branch: string = DEFAULT_BRANCH
+): LatestBuildInfo {
+  const branchInfo =
+    branch === DEFAULT_BRANCH
+      ? build
+      : build?.AppInfo?.Branches[branch] ?? undefined;
+  if (build?.AppInfo && !branchInfo) {
+    console.log(
+      `Branch "${branch}" not found for AppID ${
+        build.AppInfo.AppID
+      }; available: ${Object.keys(build.AppInfo.Branches).join(', ')}`
+    );
   }
+  const buildId = branchInfo?.BuildID ?? null;
+
+  return {
+    BuildID: buildId,
+    TimeUpdated: branchInfo?.TimeUpdated ?? null,
+    Branch: branch,
+    NewerBranches: getNewerBranches(build?.AppInfo, branch, buildId),
+    RatingPercent: review.ratingPercent,
+    ReviewsTotal: review.total,
+    ReviewsPositive: review.positive,
+    ReviewsNegative: review.negative,
+    ReviewSummary: review.summary,
+  };
+}
+
+/**
+ * Latest build info for an app whose change number has not moved: the
+ * stored build, date and branches are carried over
+ */
+export function toUnchangedBuildInfo(
+  game: GameData,
+  review: SteamReviewSummary
+): LatestBuildInfo {
+  return {
+    BuildID: game.LatestBuild ?? null,
+    TimeUpdated: null,
+    Branch: game.Branch ?? DEFAULT_BRANCH,
+    NewerBranches: game.NewerBranches ?? [],
+    RatingPercent: review.ratingPercent,
+    ReviewsTotal: review.total,
+    ReviewsPositive: review.positive,
+    ReviewsNegative: review.negative,
+    ReviewSummary: review.summary,
+  };
+}
+
+/**
+ * Stored review fields in the shape returned by fetchSteamReviewSummary
+ */
+export function getStoredReviewSummary(game: GameData): SteamReviewSummary {
+  return {
+    ratingPercent: game.RatingPercent ?? null,
+    total: game.ReviewsTotal ?? null,
+    positive: game.ReviewsPositive ?? null,
+    negative: game.ReviewsNegative ?? null,
+    summary: game.ReviewSummary ?? null,
+  };
+}
+
+/**
+ * Get latest build information for a single app from the given source
+ */
+export async function getLatestBuild(
+  appId: number,
+  source: SteamRawSource,
+  branch: string = DEFAULT_BRANCH,
+  options: Partial<SteamOptions> = {}
+): Promise<LatestBuildInfo> {
+  const builds = await getLatestBuilds([appId], source, options);
+
+  // SteamDB-style rating (user review percent + counts)
+  const review = await fetchSteamReviewSummary(appId, source, options);
+
+  return toLatestBuildInfo(builds.get(appId), review, branch);
 }
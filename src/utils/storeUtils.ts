@@ -0,0 +1,157 @@
+/**
+ * Store metadata enrichment: store page details from appdetails, cached in
+ * games.json, and install size estimates for the report
+ */
+
+import {
+  FetchFailure,
+  GameData,
+  SteamOptions,
+  StoreMetadata,
+  StorePlatform,
+} from '../types';
+import { FetchError, toFetchFailure, withRetry } from './retryUtils';
+import { isPlainObject } from './schemaUtils';
+import {
+  parseStoreResponse,
+  SteamRawSource,
+  StoreResponse,
+} from './steamUtils';
+
+export type StoreMetadataResult = {
+  metadata: StoreMetadata | null;
+  /** Why metadata is null, when the fetch failed */
+  failure?: FetchFailure;
+};
+
+const PLATFORMS: StorePlatform[] = ['windows', 'mac', 'linux'];
+
+function stringList(values: unknown): string[] | undefined {
+  if (!Array.isArray(values)) return undefined;
+  const list = values.filter((v): v is string => typeof v === 'string');
+  return list.length ? list : undefined;
+}
+
+/** The per-app part of an appdetails answer for an app with a store page */
+interface AppDetailsEntry {
+  success: true;
+  data?: Record<string, unknown>;
+}
+
+function isAppDetailsEntry(value: unknown): value is AppDetailsEntry {
+  return (
+    isPlainObject(value) &&
+    value.success === true &&
+    (value.data === undefined || isPlainObject(value.data))
+  );
+}
+
+/**
+ * Store metadata from an appdetails answer. Throws a classified FetchError
+ * for error statuses, unreadable bodies and apps without a store page.
+ */
+export function parseAppDetails(
+  appId: number,
+  response: StoreResponse,
+  debug = false,
+  now: Date = new Date()
+): StoreMetadata {
+  const json = parseStoreResponse('appdetails', appId, response, debug);
+  const entry: unknown = isPlainObject(json) ? json[appId] : undefined;
+  if (!isAppDetailsEntry(entry)) {
+    // Delisted or region-locked: asking again will not help.
+    throw new FetchError('appdetails returned no store page', 'access-denied');
+  }
+
+  const data = entry.data ?? {};
+  const releaseDate = isPlainObject(data.release_date) ? data.release_date : {};
+  const platforms = PLATFORMS.filter(
+    (p) => isPlainObject(data.platforms) && data.platforms[p] === true
+  );
+  return {
+    HeaderImage:
+      typeof data.header_image === 'string' ? data.header_image : undefined,
+    ReleaseDate:
+      typeof releaseDate.date === 'string' && releaseDate.date
+        ? releaseDate.date
+        : undefined,
+    ComingSoon: releaseDate.coming_soon === true || undefined,
+    Developers: stringList(data.developers),
+    Publishers: stringList(data.publishers),
+    Genres: stringList(
+      Array.isArray(data.genres)
+        ? data.genres.map((g: unknown) =>
+            isPlainObject(g) ? g.description : undefined
+          )
+        : undefined
+    ),
+    Platforms: platforms.length ? platforms : undefined,
+    FetchedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Store metadata for an app, retried with backoff. Never rejects: on
+ * failure `metadata` is null and `failure` says why.
+ */
+export async function fetchStoreMetadata(
+  appId: number,
+  source: SteamRawSource,
+  options: Partial<SteamOptions> = {}
+): Promise<StoreMetadataResult> {
+  try {
+    const metadata = await withRetry(
+      'Steam store details',
+      async () =>
+        parseAppDetails(
+          appId,
+          await source.getAppDetailsResponse(appId),
+          options.RatingDebug
+        ),
+      options
+    );
+    return { metadata };
+  } catch (error) {
+    const failure = toFetchFailure('store', error);
+    console.log(
+      `Store metadata for AppID ${appId} unavailable (${failure.Kind}): ${failure.Message}`
+    );
+    return { metadata: null, failure };
+  }
+}
+
+/**
+ * Whether cached metadata is missing or at least `maxAgeHours` old
+ */
+export function isStoreMetadataDue(
+  metadata: StoreMetadata | undefined,
+  maxAgeHours: number,
+  now: number = Date.now()
+): boolean {
+  if (!metadata) return true;
+  return now - Date.parse(metadata.FetchedAt) >= maxAgeHours * 3600 * 1000;
+}
+
+export interface RefreshEstimate {
+  /** Backups with an update available */
+  Games: number;
+  /** Summed install size of those with a known size */
+  Bytes: number;
+  /** How many of them have no known size */
+  Unknown: number;
+}
+
+/**
+ * What refreshing every outdated backup would download. Library installs
+ * are updated by Steam itself and are not counted.
+ */
+export function getRefreshEstimate(games: GameData[]): RefreshEstimate {
+  const outdated = games.filter(
+    (g) => g.Status?.Code === 'update-available' && g.Source !== 'library'
+  );
+  return {
+    Games: outdated.length,
+    Bytes: outdated.reduce((sum, g) => sum + (g.InstallSize ?? 0), 0),
+    Unknown: outdated.filter((g) => g.InstallSize == null).length,
+  };
+}
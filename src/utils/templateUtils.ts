@@ -0,0 +1,395 @@
+/**
+ * Minimal HTML templating with contextual escaping
+ *
+ * Syntax:
+ *   {{ path.to.value }}          value, escaped for where it appears
+ *   {{ value | raw }}            value inserted without escaping
+ *   {{#if value}}…{{else}}…{{/if}}
+ *   {{#each list}}…{{/each}}     `.` is the current item; names are looked
+ *                                up on the item first, then outward
+ *   {{> asset.css}}              file from the template's directory,
+ *                                inserted verbatim
+ *
+ * The context of each placeholder is found by scanning the surrounding
+ * markup: element text and quoted attributes are HTML-escaped, href/src
+ * attributes only accept http(s), mailto and relative URLs, and values
+ * inside <script> are written as JSON. Placeholders in tag names, attribute
+ * names, unquoted attributes, event handler (on*) and style attributes, or
+ * <style> are rejected. Included assets are scanned like the template, so
+ * placeholders after them get the right context.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export class TemplateError extends Error {
+  constructor(message: string, public readonly templateFile?: string) {
+    super(templateFile ? `${templateFile}: ${message}` : message);
+    this.name = 'TemplateError';
+  }
+}
+
+type EscapeContext = 'text' | 'attr' | 'url' | 'script';
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; path: string; context: EscapeContext | 'raw' }
+  | { kind: 'if'; path: string; then: TemplateNode[]; else: TemplateNode[] }
+  | { kind: 'each'; path: string; body: TemplateNode[] };
+
+const URL_ATTRIBUTES = new Set([
+  'href',
+  'src',
+  'action',
+  'formaction',
+  'poster',
+  'cite',
+]);
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Escape a URL for an attribute, replacing scripting schemes such as
+ * `javascript:` with a harmless `#`. The URL is first normalised the way
+ * browsers read it: leading and trailing control characters and spaces are
+ * dropped, and tabs and line breaks are removed wherever they appear.
+ */
+export function escapeUrl(value: string): string {
+  const normalised = value
+    .replace(/^[\x00-\x20]+|[\x00-\x20]+$/g, '')
+    .replace(/[\t\r\n]/g, '');
+  const scheme = normalised.match(/^([a-z][a-z0-9+.-]*):/i);
+  if (scheme && !/^(https?|mailto)$/i.test(scheme[1])) return '#';
+  return escapeHtml(normalised);
+}
+
+/**
+ * JSON for use inside a <script> element; `<`, `>` and `&` are written as
+ * unicode escapes so the value cannot close the element
+ */
+export function escapeScript(value: unknown): string {
+  return (JSON.stringify(value) ?? 'null')
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+/**
+ * Tracks where in the markup the template currently is, so placeholders
+ * can be escaped for their context
+ */
+class MarkupScanner {
+  private state: 'text' | 'tag' | 'attr' | 'script' | 'style' = 'text';
+  private tagName = '';
+  private attrName = '';
+  private quote = '';
+
+  /** Advance over literal template text */
+  feed(text: string): void {
+    let i = 0;
+    while (i < text.length) {
+      const rest = text.substring(i);
+      switch (this.state) {
+        case 'text': {
+          const tag = rest.match(/^<(\/?)([a-zA-Z][\w-]*)/);
+          if (tag) {
+            this.state = 'tag';
+            this.tagName = tag[1] ? '' : tag[2].toLowerCase();
+            i += tag[0].length;
+          } else {
+            i++;
+          }
+          break;
+        }
+        case 'tag': {
+          if (rest[0] === '>') {
+            this.state =
+              this.tagName === 'script' || this.tagName === 'style'
+                ? (this.tagName as 'script' | 'style')
+                : 'text';
+            i++;
+            break;
+          }
+          const attr = rest.match(/^([^\s=>"'/]+)\s*=\s*(["']?)/);
+          if (attr) {
+            this.attrName = attr[1].toLowerCase();
+            this.quote = attr[2];
+            this.state = 'attr';
+            i += attr[0].length;
+          } else {
+            i++;
+          }
+          break;
+        }
+        case 'attr': {
+          const end = this.quote
+            ? rest.indexOf(this.quote)
+            : rest.search(/[\s>]/);
+          if (end === -1) {
+            i = text.length;
+          } else {
+            this.state = 'tag';
+            i += end + (this.quote ? 1 : 0);
+          }
+          break;
+        }
+        case 'script':
+        case 'style': {
+          const close = rest.toLowerCase().indexOf(`</${this.state}`);
+          if (close === -1) {
+            i = text.length;
+          } else {
+            this.state = 'text';
+            i += close;
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  /** Escape context for a placeholder at the current position */
+  context(): EscapeContext {
+    switch (this.state) {
+      case 'text':
+        return 'text';
+      case 'script':
+        return 'script';
+      case 'attr':
+        if (!this.quote) {
+          throw new Error(
+            `placeholder in unquoted attribute "${this.attrName}"`
+          );
+        }
+        if (this.attrName.startsWith('on') || this.attrName === 'style') {
+          throw new Error(
+            `placeholders are not allowed in the "${this.attrName}" attribute`
+          );
+        }
+        return URL_ATTRIBUTES.has(this.attrName) ? 'url' : 'attr';
+      case 'tag':
+        throw new Error(
+          'placeholder inside a tag must be a quoted attribute value'
+        );
+      case 'style':
+        throw new Error('placeholders are not allowed in <style>');
+    }
+  }
+}
+
+const TAG_PATTERN = /\{\{\s*([#/>]?)\s*([^}]*?)\s*\}\}/g;
+
+/**
+ * Parse a template into nodes, resolving asset includes from baseDir.
+ * Included files are added to `includes`.
+ */
+function parseTemplate(
+  source: string,
+  baseDir: string,
+  includes: string[] = []
+): TemplateNode[] {
+  const scanner = new MarkupScanner();
+  const root: TemplateNode[] = [];
+  const stack: { node: TemplateNode; target: TemplateNode[] }[] = [];
+  let target = root;
+  let last = 0;
+
+  const pushText = (text: string) => {
+    if (!text) return;
+    scanner.feed(text);
+    target.push({ kind: 'text', text });
+  };
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    pushText(source.substring(last, match.index));
+    last = (match.index ?? 0) + match[0].length;
+    const [, sigil, body] = match;
+
+    if (sigil === '>') {
+      const file = path.resolve(baseDir, body);
+      if (path.dirname(file) !== path.resolve(baseDir)) {
+        throw new Error(`asset "${body}" must be in the template directory`);
+      }
+      // Assets are part of the trusted template: no escaping.
+      includes.push(file);
+      pushText(fs.readFileSync(file, 'utf-8'));
+      continue;
+    }
+
+    if (sigil === '#') {
+      const [keyword, valuePath] = body.split(/\s+/, 2);
+      if ((keyword !== 'if' && keyword !== 'each') || !valuePath) {
+        throw new Error(`unknown block "{{#${body}}}"`);
+      }
+      const children: TemplateNode[] = [];
+      const node: TemplateNode =
+        keyword === 'if'
+          ? { kind: 'if', path: valuePath, then: children, else: [] }
+          : { kind: 'each', path: valuePath, body: children };
+      target.push(node);
+      stack.push({ node, target });
+      target = children;
+      continue;
+    }
+
+    if (sigil === '/') {
+      const open = stack.pop();
+      if (!open || open.node.kind !== body) {
+        throw new Error(`unexpected "{{/${body}}}"`);
+      }
+      target = open.target;
+      continue;
+    }
+
+    if (body === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.node.kind !== 'if') {
+        throw new Error('"{{else}}" outside of "{{#if}}"');
+      }
+      target = open.node.else;
+      continue;
+    }
+
+    const [valuePath, filter] = body.split(/\s*\|\s*/);
+    if (filter && filter !== 'raw') {
+      throw new Error(`unknown filter "${filter}"`);
+    }
+    target.push({
+      kind: 'value',
+      path: valuePath,
+      context: filter === 'raw' ? 'raw' : scanner.context(),
+    });
+  }
+  pushText(source.substring(last));
+
+  if (stack.length) {
+    throw new Error(`unclosed "{{#${stack[stack.length - 1].node.kind}}}"`);
+  }
+  return root;
+}
+
+function lookup(scopes: unknown[], valuePath: string): unknown {
+  if (valuePath === '.') return scopes[scopes.length - 1];
+  const [head, ...rest] = valuePath.split('.');
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i];
+    if (scope != null && typeof scope === 'object' && head in scope) {
+      let value = (scope as Record<string, unknown>)[head];
+      for (const key of rest) {
+        value =
+          value != null && typeof value === 'object'
+            ? (value as Record<string, unknown>)[key]
+            : undefined;
+      }
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function renderValue(value: unknown, context: EscapeContext | 'raw'): string {
+  if (context === 'script') return escapeScript(value);
+  const text = value == null ? '' : String(value);
+  switch (context) {
+    case 'raw':
+      return text;
+    case 'url':
+      return escapeUrl(text);
+    default:
+      return escapeHtml(text);
+  }
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: unknown[]): string {
+  let out = '';
+  for (const node of nodes) {
+    switch (node.kind) {
+      case 'text':
+        out += node.text;
+        break;
+      case 'value':
+        out += renderValue(lookup(scopes, node.path), node.context);
+        break;
+      case 'if':
+        out += renderNodes(
+          isTruthy(lookup(scopes, node.path)) ? node.then : node.else,
+          scopes
+        );
+        break;
+      case 'each': {
+        const list = lookup(scopes, node.path);
+        if (!Array.isArray(list)) break;
+        for (const item of list)
+          out += renderNodes(node.body, [...scopes, item]);
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+export type CompiledTemplate = (data: object) => string;
+
+/** Compiled template with the mtimes of the files it was built from */
+interface CachedTemplate {
+  compiled: CompiledTemplate;
+  mtimes: Map<string, number>;
+}
+
+const compiledCache = new Map<string, CachedTemplate>();
+
+function getMtime(file: string): number | null {
+  try {
+    return fs.statSync(file).mtimeMs;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compile a template file. Syntax and context errors are reported with the
+ * file name when compiling, not when rendering. The result is cached until
+ * the template or one of its assets changes on disk.
+ */
+export function compileTemplateFile(templateFile: string): CompiledTemplate {
+  const file = path.resolve(templateFile);
+  const cached = compiledCache.get(file);
+  if (
+    cached &&
+    Array.from(cached.mtimes).every(([f, mtime]) => getMtime(f) === mtime)
+  ) {
+    return cached.compiled;
+  }
+
+  const mtimes = new Map([[file, getMtime(file) ?? 0]]);
+  let nodes: TemplateNode[];
+  try {
+    const includes: string[] = [];
+    nodes = parseTemplate(
+      fs.readFileSync(file, 'utf-8'),
+      path.dirname(file),
+      includes
+    );
+    for (const include of includes) {
+      mtimes.set(include, getMtime(include) ?? 0);
+    }
+  } catch (e) {
+    throw new TemplateError((e as Error).message, file);
+  }
+  const compiled: CompiledTemplate = (data) => renderNodes(nodes, [data]);
+  compiledCache.set(file, { compiled, mtimes });
+  return compiled;
+}
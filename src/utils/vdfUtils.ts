@@ -0,0 +1,220 @@
+/**
+ * Valve KeyValues (VDF) parsing utilities
+ *
+ * Handles the text format used by SteamCMD's app_info_print output as well
+ * as Steam's appmanifest/libraryfolders files.
+ */
+
+import { VdfObject, VdfValue } from '../types';
+
+export class VdfParseError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} (at offset ${position})`);
+    this.name = 'VdfParseError';
+  }
+}
+
+type VdfToken =
+  | { kind: 'open'; position: number }
+  | { kind: 'close'; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'eof'; position: number };
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  '\\': '\\',
+  '"': '"',
+};
+
+function createTokenizer(text: string, start: number) {
+  let pos = start;
+
+  function skipWhitespaceAndComments() {
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (ch === ' ' || ch === '\t' || ch === '\r' || ch === '\n') {
+        pos++;
+      } else if (ch === '/' && text[pos + 1] === '/') {
+        while (pos < text.length && text[pos] !== '\n') pos++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  function readQuoted(): string {
+    const begin = pos;
+    pos++; // opening quote
+    let value = '';
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (ch === '"') {
+        pos++;
+        return value;
+      }
+      if (ch === '\\' && pos + 1 < text.length) {
+        const next = text[pos + 1];
+        value += ESCAPES[next] ?? `\\${next}`;
+        pos += 2;
+        continue;
+      }
+      value += ch;
+      pos++;
+    }
+    throw new VdfParseError('Unterminated quoted string', begin);
+  }
+
+  function readUnquoted(): string {
+    const begin = pos;
+    while (pos < text.length && !/[\s{}"]/.test(text[pos])) pos++;
+    return text.substring(begin, pos);
+  }
+
+  function next(): VdfToken {
+    while (true) {
+      skipWhitespaceAndComments();
+      if (pos >= text.length) return { kind: 'eof', position: pos };
+
+      const position = pos;
+      const ch = text[pos];
+      if (ch === '{') {
+        pos++;
+        return { kind: 'open', position };
+      }
+      if (ch === '}') {
+        pos++;
+        return { kind: 'close', position };
+      }
+
+      const value = ch === '"' ? readQuoted() : readUnquoted();
+      // Platform conditionals such as [$WIN32] carry no data for us.
+      if (ch !== '"' && /^\[.*\]$/.test(value)) continue;
+      return { kind: 'string', value, position };
+    }
+  }
+
+  return { next, position: () => pos };
+}
+
+type VdfTokenizer = ReturnType<typeof createTokenizer>;
+
+function parseObjectBody(tokens: VdfTokenizer, nested: boolean): VdfObject {
+  const result: VdfObject = {};
+
+  while (true) {
+    const keyToken = tokens.next();
+    if (keyToken.kind === 'close') {
+      if (nested) return result;
+      throw new VdfParseError('Unexpected "}"', keyToken.position);
+    }
+    if (keyToken.kind === 'eof') {
+      if (!nested) return result;
+      throw new VdfParseError('Unexpected end of input', keyToken.position);
+    }
+    if (keyToken.kind === 'open') {
+      throw new VdfParseError('Expected key, found "{"', keyToken.position);
+    }
+
+    const valueToken = tokens.next();
+    if (valueToken.kind === 'open') {
+      result[keyToken.value] = parseObjectBody(tokens, true);
+    } else if (valueToken.kind === 'string') {
+      result[keyToken.value] = valueToken.value;
+    } else {
+      throw new VdfParseError(
+        `Missing value for key "${keyToken.value}"`,
+        valueToken.position
+      );
+    }
+  }
+}
+
+/**
+ * Parse a complete KeyValues document into an object tree
+ */
+export function parseVdf(text: string): VdfObject {
+  return parseObjectBody(createTokenizer(text, 0), false);
+}
+
+/**
+ * Parse a single `"key" { ... }` entry starting at the given offset.
+ * Returns the entry and the offset just past its closing brace, which lets
+ * callers pull VDF blocks out of surrounding non-VDF console output.
+ */
+export function parseVdfEntryAt(
+  text: string,
+  start: number
+): { key: string; value: VdfObject; end: number } {
+  const tokens = createTokenizer(text, start);
+  const keyToken = tokens.next();
+  if (keyToken.kind !== 'string') {
+    throw new VdfParseError('Expected entry key', keyToken.position);
+  }
+  const open = tokens.next();
+  if (open.kind !== 'open') {
+    throw new VdfParseError(
+      `Expected "{" after key "${keyToken.value}"`,
+      open.position
+    );
+  }
+  const value = parseObjectBody(tokens, true);
+  return { key: keyToken.value, value, end: tokens.position() };
+}
+
+export function isVdfObject(value: VdfValue | undefined): value is VdfObject {
+  return value != null && typeof value === 'object';
+}
+
+/**
+ * Look up a value by path, e.g. "depots.branches.public.buildid".
+ * KeyValues keys are case-insensitive, so an exact match is preferred but a
+ * case-insensitive one is accepted.
+ */
+export function getVdfValue(
+  root: VdfObject | undefined,
+  path: string | string[]
+): VdfValue | undefined {
+  const segments = Array.isArray(path) ? path : path.split('.');
+  let current: VdfValue | undefined = root;
+
+  for (const segment of segments) {
+    if (!isVdfObject(current)) return undefined;
+    if (Object.prototype.hasOwnProperty.call(current, segment)) {
+      current = current[segment];
+      continue;
+    }
+    const lower = segment.toLowerCase();
+    const keys: string[] = Object.keys(current);
+    const match = keys.find((k) => k.toLowerCase() === lower);
+    current = match == null ? undefined : current[match];
+  }
+
+  return current;
+}
+
+export function getVdfString(
+  root: VdfObject | undefined,
+  path: string | string[]
+): string | null {
+  const value = getVdfValue(root, path);
+  return typeof value === 'string' ? value : null;
+}
+
+export function getVdfNumber(
+  root: VdfObject | undefined,
+  path: string | string[]
+): number | null {
+  const value = getVdfString(root, path);
+  if (value == null || !/^-?\d+$/.test(value.trim())) return null;
+  return parseInt(value, 10);
+}
+
+export function getVdfObject(
+  root: VdfObject | undefined,
+  path: string | string[]
+): VdfObject | null {
+  const value = getVdfValue(root, path);
+  return isVdfObject(value) ? value : null;
+}
@@ -0,0 +1,125 @@
+/**
+ * Watching backup directories: debounced change notifications and telling
+ * finished archives from ones still being written
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { LocalBackup } from '../types';
+
+/**
+ * Size and modification time of a file, or of everything in a folder
+ * backup; null once it is gone
+ */
+export function getFingerprint(file: string): string | null {
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(file);
+  } catch {
+    return null;
+  }
+  if (!stat.isDirectory()) return `${stat.size}:${stat.mtimeMs}`;
+
+  // Writes inside a folder do not touch the folder itself, so sum it up.
+  let size = 0;
+  let mtimeMs = stat.mtimeMs;
+  let entries = 0;
+  const pending = [file];
+  while (pending.length) {
+    const dir = pending.pop() as string;
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        pending.push(entryPath);
+        continue;
+      }
+      try {
+        const entryStat = fs.statSync(entryPath);
+        size += entryStat.size;
+        mtimeMs = Math.max(mtimeMs, entryStat.mtimeMs);
+        entries++;
+      } catch {
+        // Removed while walking; the next scan sees the difference.
+      }
+    }
+  }
+  return `${entries}:${size}:${mtimeMs}`;
+}
+
+/**
+ * Tracks backup fingerprints between scans. A backup is settled once every
+ * file of it is unchanged since the previous scan; on the first scan files
+ * untouched for `settleMs` count as settled too.
+ */
+export class BackupSettleTracker {
+  private fingerprints = new Map<string, string | null>();
+  private scanned = false;
+
+  constructor(private readonly settleMs: number) {}
+
+  /**
+   * Split backups into settled ones and ones still being written, and
+   * remember their fingerprints for the next scan
+   */
+  split(
+    backups: LocalBackup[],
+    now: number = Date.now()
+  ): { Settled: LocalBackup[]; Writing: LocalBackup[] } {
+    const next = new Map<string, string | null>();
+    const isSettled = (file: string) => {
+      const fingerprint = getFingerprint(file);
+      next.set(file, fingerprint);
+      if (fingerprint == null) return false;
+      if (this.fingerprints.get(file) === fingerprint) return true;
+      return !this.scanned && isUntouchedFor(file, this.settleMs, now);
+    };
+
+    const result = {
+      Settled: [] as LocalBackup[],
+      Writing: [] as LocalBackup[],
+    };
+    for (const backup of backups) {
+      // Check every file so all fingerprints are remembered.
+      const settled = backup.Files.map(isSettled).every(Boolean);
+      (settled ? result.Settled : result.Writing).push(backup);
+    }
+    this.fingerprints = next;
+    this.scanned = true;
+    return result;
+  }
+}
+
+function isUntouchedFor(file: string, ms: number, now: number): boolean {
+  try {
+    return now - fs.statSync(file).mtimeMs >= ms;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Call `onChange` once a burst of file events in any of `dirs`, or below
+ * them (writes inside folder backups), has been quiet for `debounceMs`.
+ * Returns a function that stops watching.
+ */
+export function watchDirectories(
+  dirs: string[],
+  debounceMs: number,
+  onChange: () => void
+): () => void {
+  let timer: NodeJS.Timeout | undefined;
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = setTimeout(onChange, debounceMs);
+  };
+
+  const watchers = dirs.map((dir) =>
+    fs.watch(dir, { recursive: true }, schedule).on('error', (error) => {
+      console.log(`Watching ${dir} failed: ${error.message}`);
+    })
+  );
+  return () => {
+    clearTimeout(timer);
+    for (const watcher of watchers) watcher.close();
+  };
+}
@@ -0,0 +1,222 @@
+function svcsGetCellSortValue(cell) {
+  if (!cell) return '';
+  const attr = cell.getAttribute('data-sort');
+  if (attr != null) return attr;
+  return (cell.textContent || '').trim();
+}
+
+function svcsCompare(a, b, type, dir) {
+  const mult = dir === 'desc' ? -1 : 1;
+  if (type === 'num') {
+    const na = a === '' ? Number.NaN : Number(a);
+    const nb = b === '' ? Number.NaN : Number(b);
+    const aIsNaN = Number.isNaN(na);
+    const bIsNaN = Number.isNaN(nb);
+    if (aIsNaN && bIsNaN) return 0;
+    if (aIsNaN) return 1; // blanks last
+    if (bIsNaN) return -1;
+    if (na < nb) return -1 * mult;
+    if (na > nb) return 1 * mult;
+    return 0;
+  }
+
+  // default: string compare (case-insensitive)
+  const sa = String(a).toLowerCase();
+  const sb = String(b).toLowerCase();
+  if (sa < sb) return -1 * mult;
+  if (sa > sb) return 1 * mult;
+  return 0;
+}
+
+function svcsSortTableByKey(table, key, type, dir) {
+  const tbody = table.querySelector('tbody');
+  if (!tbody) return;
+  const rows = Array.from(tbody.querySelectorAll('tr'));
+  const keyed = rows.map((row, idx) => {
+    const cell = row.querySelector('[data-key="' + key + '"]');
+    return { row, idx, value: svcsGetCellSortValue(cell) };
+  });
+
+  keyed.sort((ra, rb) => {
+    const cmp = svcsCompare(ra.value, rb.value, type, dir);
+    if (cmp !== 0) return cmp;
+    return ra.idx - rb.idx; // stable
+  });
+
+  for (const item of keyed) tbody.appendChild(item.row);
+}
+
+// View state shared with the URL hash, e.g.
+// #q=portal&status=update,error&rating=high&sort=latest:desc
+const svcsState = { q: '', status: [], rating: [], sort: '', dir: 'asc' };
+
+function svcsReadHash() {
+  const params = new URLSearchParams(window.location.hash.substring(1));
+  const list = (name) =>
+    (params.get(name) || '').split(',').filter((v) => v !== '');
+  const sort = (params.get('sort') || '').split(':');
+  svcsState.q = params.get('q') || '';
+  svcsState.status = list('status');
+  svcsState.rating = list('rating');
+  svcsState.sort = sort[0] || '';
+  svcsState.dir = sort[1] === 'desc' ? 'desc' : 'asc';
+}
+
+function svcsWriteHash() {
+  const params = new URLSearchParams();
+  if (svcsState.q) params.set('q', svcsState.q);
+  if (svcsState.status.length) params.set('status', svcsState.status.join(','));
+  if (svcsState.rating.length) params.set('rating', svcsState.rating.join(','));
+  if (svcsState.sort) params.set('sort', svcsState.sort + ':' + svcsState.dir);
+  const hash = params.toString().replace(/%2C/g, ',');
+  const url =
+    window.location.pathname + window.location.search + (hash ? '#' + hash : '');
+  history.replaceState(null, '', url);
+}
+
+function svcsApplySort(table) {
+  const headers = Array.from(table.querySelectorAll('th.sortable'));
+  headers.forEach((h) => h.removeAttribute('data-dir'));
+  const th = headers.find(
+    (h) => h.getAttribute('data-sort-key') === svcsState.sort
+  );
+  if (!th) return;
+  th.setAttribute('data-dir', svcsState.dir);
+  const type = th.getAttribute('data-sort-type') || 'str';
+  svcsSortTableByKey(table, svcsState.sort, type, svcsState.dir);
+}
+
+function svcsApplyFilters(table) {
+  const query = svcsState.q.trim().toLowerCase();
+  const rows = Array.from(table.querySelectorAll('tbody tr'));
+  let shown = 0;
+  for (const row of rows) {
+    const visible =
+      (!query || (row.textContent || '').toLowerCase().includes(query)) &&
+      (!svcsState.status.length ||
+        svcsState.status.includes(row.getAttribute('data-status'))) &&
+      (!svcsState.rating.length ||
+        svcsState.rating.includes(row.getAttribute('data-rating-band')));
+    row.hidden = !visible;
+    if (visible) shown++;
+  }
+
+  document.querySelectorAll('.chip').forEach((chip) => {
+    const group = svcsState[chip.getAttribute('data-filter')] || [];
+    chip.setAttribute(
+      'aria-pressed',
+      String(group.includes(chip.getAttribute('data-value')))
+    );
+  });
+  const search = document.getElementById('reportSearch');
+  if (search && search.value !== svcsState.q) search.value = svcsState.q;
+  const count = document.getElementById('reportShown');
+  if (count) {
+    count.textContent =
+      shown === rows.length
+        ? 'Showing all ' + rows.length + ' games'
+        : 'Showing ' + shown + ' of ' + rows.length + ' games';
+  }
+}
+
+function svcsInitReport() {
+  const table = document.getElementById('reportTable');
+  if (!table) return;
+
+  const headers = Array.from(table.querySelectorAll('th.sortable'));
+  headers.forEach((th) => {
+    th.addEventListener('click', () => {
+      const key = th.getAttribute('data-sort-key');
+      if (!key) return;
+
+      // Toggle direction on same header, otherwise default asc
+      svcsState.dir =
+        svcsState.sort === key && svcsState.dir === 'asc' ? 'desc' : 'asc';
+      svcsState.sort = key;
+      svcsApplySort(table);
+      svcsWriteHash();
+    });
+  });
+
+  const search = document.getElementById('reportSearch');
+  if (search) {
+    search.addEventListener('input', () => {
+      svcsState.q = search.value;
+      svcsApplyFilters(table);
+      svcsWriteHash();
+    });
+  }
+
+  document.querySelectorAll('.chip').forEach((chip) => {
+    chip.addEventListener('click', () => {
+      const group = svcsState[chip.getAttribute('data-filter')];
+      const value = chip.getAttribute('data-value');
+      const index = group.indexOf(value);
+      if (index === -1) group.push(value);
+      else group.splice(index, 1);
+      svcsApplyFilters(table);
+      svcsWriteHash();
+    });
+  });
+
+  const applyHash = () => {
+    svcsReadHash();
+    svcsApplySort(table);
+    svcsApplyFilters(table);
+  };
+  window.addEventListener('hashchange', applyHash);
+  applyHash();
+  svcsInitLiveUpdates(table);
+}
+
+// Served reports follow checks through the server's event stream and swap
+// in the freshly rendered rows and summary, keeping sort and filters.
+function svcsInitLiveUpdates(table) {
+  const url = document.body.getAttribute('data-live-events');
+  if (!url || !window.EventSource) return;
+  const status = document.getElementById('reportLive');
+  const say = (text) => {
+    if (status) status.textContent = text;
+  };
+
+  let pending = null;
+  const reload = () => {
+    clearTimeout(pending);
+    pending = setTimeout(async () => {
+      try {
+        const response = await fetch(window.location.pathname, {
+          cache: 'no-store',
+        });
+        const html = await response.text();
+        const fresh = new DOMParser().parseFromString(html, 'text/html');
+        for (const selector of ['#reportTable tbody', '.summary']) {
+          const current = document.querySelector(selector);
+          const next = fresh.querySelector(selector);
+          if (current && next) current.replaceWith(next);
+        }
+        svcsApplySort(table);
+        svcsApplyFilters(table);
+      } catch (error) {
+        say('Live update failed: ' + error);
+      }
+    }, 500);
+  };
+
+  const source = new EventSource(url);
+  const on = (event, handler) =>
+    source.addEventListener(event, (e) => handler(JSON.parse(e.data)));
+  on('check-started', (d) => say(d.Label + ': 0 of ' + d.Total + ' checked'));
+  on('game', (d) => {
+    say('Checked ' + d.Done + ' of ' + d.Total + ' (' + d.Game.Name + ')');
+    reload();
+  });
+  on('check-finished', (d) => {
+    say('Check finished: ' + d.Updates + ' of ' + d.Total + ' need updates');
+    reload();
+  });
+  on('check-failed', (d) => say('Check failed: ' + d.Error));
+  source.addEventListener('open', () => say('Live'));
+  source.addEventListener('error', () => say('Reconnecting…'));
+}
+
+document.addEventListener('DOMContentLoaded', svcsInitReport);
@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { renderCsvReport } from '../src/utils/csvUtils';
+
+const META = { GeneratedAt: '2026-01-01', RunMode: 'Test', FeedHref: '' };
+
+function rows(csv: string): string[] {
+  return csv
+    .replace(/^\uFEFF/, '')
+    .trimEnd()
+    .split('\r\n');
+}
+
+describe('renderCsvReport', () => {
+  it('quotes fields with separators, quotes and line breaks', () => {
+    const [, row] = rows(
+      renderCsvReport([{ Name: 'A, "B"\nC', AppID: 10 }], META)
+    );
+    assert.match(row, /^"A, ""B""\nC",10,public,/);
+  });
+
+  it('keeps text from running as a formula', () => {
+    for (const name of ['=1+1', '+1', '-1', '@SUM(A1)', '\t=1']) {
+      const [, row] = rows(
+        renderCsvReport([{ Name: name, AppID: 10, Branch: '=beta' }], META)
+      );
+      assert.ok(row.startsWith(`'${name},10,'=beta,`), row);
+    }
+  });
+
+  it('writes negative numbers as numbers', () => {
+    const [header, row] = rows(
+      renderCsvReport([{ Name: 'Game', AppID: 10, RatingChange: -2.5 }], META)
+    );
+    const column = header.split(',').indexOf('RatingChange');
+    assert.equal(row.split(',')[column], '-2.5');
+  });
+});
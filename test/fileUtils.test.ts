@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import {
+  compileBackupPattern,
+  getQuarantineFile,
+  readGamesData,
+  scanLocalBackups,
+} from '../src/utils/fileUtils';
+
+describe('readGamesData', () => {
+  let dir: string;
+  let dataFile: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'svc-games-'));
+    dataFile = path.join(dir, 'games.json');
+    fs.writeFileSync(
+      dataFile,
+      JSON.stringify({
+        SchemaVersion: 4,
+        Games: {
+          10: { Name: 'Game', AppID: 10 },
+          x: { Name: 'Broken', AppID: 'x' },
+        },
+      })
+    );
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('leaves rejected entries out without writing anything', () => {
+    assert.deepEqual(Object.keys(readGamesData(dataFile)), ['10']);
+    assert.deepEqual(fs.readdirSync(dir), ['games.json']);
+  });
+
+  it('quarantines rejected entries for commands that write', () => {
+    readGamesData(dataFile, true);
+    readGamesData(dataFile, true);
+    const quarantined = JSON.parse(
+      fs.readFileSync(getQuarantineFile(dataFile), 'utf-8')
+    );
+    assert.equal(quarantined.length, 1);
+    assert.equal(quarantined[0].Key, 'x');
+    assert.deepEqual(quarantined[0].Entry, { Name: 'Broken', AppID: 'x' });
+  });
+});
+
+describe('backup patterns', () => {
+  it('compiles templates with named placeholders', () => {
+    const match = compileBackupPattern('{name} [{appid}] ({build})').exec(
+      'Half-Life 2 [220] (123)'
+    );
+    assert.deepEqual(
+      { ...match?.groups },
+      { name: 'Half-Life 2', appid: '220', build: '123' }
+    );
+  });
+
+  it('rejects unknown, repeated and missing placeholders', () => {
+    assert.throws(() => compileBackupPattern('{name}_{id}_{build}'), /\{id\}/);
+    assert.throws(
+      () => compileBackupPattern('{name}_{appid}_{build}_{build}'),
+      /twice/
+    );
+    assert.throws(() => compileBackupPattern('{name}_{appid}'), /\{build\}/);
+  });
+});
+
+describe('scanLocalBackups', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'svc-backups-'));
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  const touch = (...names: string[]) => {
+    for (const name of names) fs.writeFileSync(path.join(dir, name), '');
+  };
+
+  it('reads the default patterns and groups split volumes', () => {
+    touch(
+      'Game_10_5.7z',
+      'Game_20_6_beta.7z.001',
+      'Game_20_6_beta.7z.002',
+      'notes.txt',
+      'Unnamed.7z'
+    );
+    const result = scanLocalBackups(dir);
+    const byApp = Object.fromEntries(result.Backups.map((b) => [b.AppID, b]));
+    assert.equal(byApp[10].InstalledBuild, 5);
+    assert.equal(byApp[10].Branch, undefined);
+    assert.equal(byApp[20].Branch, 'beta');
+    assert.deepEqual(
+      byApp[20].Files.map((f) => path.basename(f)),
+      ['Game_20_6_beta.7z.001', 'Game_20_6_beta.7z.002']
+    );
+    assert.deepEqual(result.Unmatched, ['Unnamed.7z']);
+    assert.equal(result.Ignored, 1);
+  });
+
+  it('uses configured patterns and extensions, including folders', () => {
+    touch(
+      'Game (10) b5.zip',
+      'Game (20) b6.part1.rar',
+      'Game (20) b6.part2.rar'
+    );
+    fs.mkdirSync(path.join(dir, 'Game (30) b7'));
+    const { Backups } = scanLocalBackups(dir, {
+      Patterns: ['{name} ({appid}) b{build}'],
+      Extensions: ['.zip', '.rar', 'folder'],
+    });
+    assert.deepEqual(
+      Backups.map((b) => [b.AppID, b.InstalledBuild, b.Files.length]).sort(),
+      [
+        [10, 5, 1],
+        [20, 6, 2],
+        [30, 7, 1],
+      ]
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { publishFiles, PublishOptions } from '../src/utils/gitUtils';
+
+const IDENTITY = ['-c', 'user.name=Test', '-c', 'user.email=test@example.com'];
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', [...IDENTITY, ...args], {
+    cwd,
+    encoding: 'utf-8',
+    stdio: ['ignore', 'pipe', 'pipe'],
+  }).trim();
+}
+
+describe('publishFiles', () => {
+  let dir: string;
+  let repo: string;
+  let remote: string;
+  let identityAsked: number;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'svc-git-'));
+    remote = path.join(dir, 'remote.git');
+    repo = path.join(dir, 'repo');
+    git(dir, 'init', '--quiet', '--bare', '-b', 'main', remote);
+    git(dir, 'clone', '--quiet', remote, repo);
+    git(repo, 'checkout', '--quiet', '-b', 'main');
+    write('games.json', '{}\n');
+    write('index.html', '<p>Generated 2026-01-01 10:00:00</p>\n');
+    git(repo, 'add', '.');
+    git(repo, 'commit', '--quiet', '-m', 'initial');
+    git(repo, 'push', '--quiet', '-u', 'origin', 'main');
+    identityAsked = 0;
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  function write(file: string, content: string): void {
+    fs.writeFileSync(path.join(repo, file), content);
+  }
+
+  function options(fields: Partial<PublishOptions> = {}): PublishOptions {
+    return {
+      RepoPath: repo,
+      DataFiles: [path.join(repo, 'games.json')],
+      ReportFiles: [path.join(repo, 'index.html')],
+      Message: 'Update report',
+      Identity: () => {
+        identityAsked++;
+        return { UserName: 'Bot', UserEmail: 'bot@example.com' };
+      },
+      ...fields,
+    };
+  }
+
+  it('commits and pushes changed files', () => {
+    write('games.json', '{"10":{}}\n');
+    const result = publishFiles(options());
+    assert.deepEqual(result, { Committed: ['main'], Skipped: false });
+    assert.equal(
+      git(remote, 'log', '-1', '--format=%s %an', 'main'),
+      'Update report Bot'
+    );
+  });
+
+  it('skips a report whose only change is its timestamp', () => {
+    write('index.html', '<p>Generated 2026-01-02 11:30:00</p>\n');
+    const result = publishFiles(options());
+    assert.deepEqual(result, { Committed: [], Skipped: true });
+    assert.equal(identityAsked, 0);
+    assert.equal(git(repo, 'diff', '--cached', '--name-only'), '');
+  });
+
+  it('commits nothing in a dry run', () => {
+    write('games.json', '{"10":{}}\n');
+    const result = publishFiles(options({ DryRun: true }));
+    assert.deepEqual(result, { Committed: ['main'], Skipped: false });
+    assert.equal(identityAsked, 0);
+    assert.equal(git(remote, 'log', '-1', '--format=%s', 'main'), 'initial');
+  });
+
+  it('publishes the reports to their own branch', () => {
+    write('games.json', '{"10":{}}\n');
+    write('index.html', '<p>New report</p>\n');
+    const result = publishFiles(options({ ReportBranch: 'gh-pages' }));
+    assert.deepEqual(result.Committed, ['gh-pages', 'main']);
+    assert.equal(
+      git(remote, 'ls-tree', '--name-only', 'gh-pages'),
+      'index.html'
+    );
+    assert.equal(
+      git(remote, 'show', 'main:index.html'),
+      '<p>Generated 2026-01-01 10:00:00</p>'
+    );
+  });
+});
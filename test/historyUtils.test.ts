@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { GameData } from '../src/types';
+import {
+  countUpdatesSince,
+  getBuildChanges,
+  MAX_HISTORY_ENTRIES,
+  recordHistory,
+  trimHistory,
+} from '../src/utils/historyUtils';
+
+const START = Date.parse('2026-01-01T00:00:00Z');
+const at = (hours: number) => new Date(START + hours * 60 * 60 * 1000);
+
+describe('recordHistory', () => {
+  it('only records changes and carries failed fields over', () => {
+    const game: GameData = { Name: 'Game', AppID: 10 };
+    assert.equal(
+      recordHistory(game, { BuildID: 1, RatingPercent: 80.04 }, at(0)),
+      true
+    );
+    assert.equal(recordHistory(game, { BuildID: 1 }, at(1)), false);
+    assert.equal(
+      recordHistory(game, { BuildID: 1, RatingPercent: 80.01 }, at(2)),
+      false
+    );
+    assert.equal(recordHistory(game, { BuildID: 2 }, at(3)), true);
+    assert.deepEqual(
+      game.History?.map((e) => [e.BuildID, e.RatingPercent]),
+      [
+        [1, 80],
+        [2, 80],
+      ]
+    );
+  });
+
+  it('never drops build changes for rating-only entries', () => {
+    const game: GameData = { Name: 'Game', AppID: 10 };
+    let hour = 0;
+    for (let build = 1; build <= 3; build++) {
+      recordHistory(game, { BuildID: build, RatingPercent: 50 }, at(hour++));
+      // Enough rating moves per build to fill the whole cap on their own
+      for (let i = 1; i <= MAX_HISTORY_ENTRIES; i++) {
+        recordHistory(
+          game,
+          { BuildID: build, RatingPercent: 50 + (i % 2) },
+          at(hour++)
+        );
+      }
+    }
+
+    const history = game.History ?? [];
+    assert.equal(history.length, MAX_HISTORY_ENTRIES + 3);
+    assert.equal(
+      history.filter((e, i) => e.BuildID !== history[i - 1]?.BuildID).length,
+      3
+    );
+    assert.equal(getBuildChanges(history).length, 2);
+    assert.equal(countUpdatesSince(history, 90, at(hour)), 2);
+  });
+});
+
+describe('trimHistory', () => {
+  it('keeps short histories as they are', () => {
+    const history = [{ FirstSeen: at(0).toISOString(), BuildID: 1 }];
+    assert.equal(trimHistory(history), history);
+  });
+});
@@ -0,0 +1,216 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, describe, it } from 'node:test';
+import { GameData, GamesDataMap } from '../src/types';
+import { MAX_HISTORY_ENTRIES } from '../src/utils/historyUtils';
+import {
+  GamesMergeError,
+  mergeGamesData,
+  readMergeSide,
+} from '../src/utils/mergeUtils';
+
+const LOCAL_ACTIONS = { Ours: 'local', Theirs: 'actions' } as const;
+
+function game(fields: Partial<GameData> = {}): GameData {
+  return { Name: 'Game', AppID: 10, InstalledBuild: 1, ...fields };
+}
+
+const map = (...games: GameData[]): GamesDataMap =>
+  Object.fromEntries(games.map((g) => [g.AppID, g]));
+
+describe('mergeGamesData field ownership', () => {
+  it('takes a change made on one side only', () => {
+    const result = mergeGamesData(
+      map(game()),
+      map(game({ InstalledBuild: 2 })),
+      map(game({ LatestBuild: 5 })),
+      LOCAL_ACTIONS
+    );
+    assert.deepEqual(result.Games[10], {
+      AppID: 10,
+      Name: 'Game',
+      InstalledBuild: 2,
+      LatestBuild: 5,
+    });
+    assert.deepEqual(result.Conflicts, []);
+    assert.deepEqual(result.Resolved, []);
+  });
+
+  it('gives fields changed on both sides to their owner', () => {
+    const base = map(game({ LatestBuild: 1 }));
+    const local = map(game({ InstalledBuild: 2, LatestBuild: 3 }));
+    const actions = map(game({ InstalledBuild: 4, LatestBuild: 5 }));
+
+    for (const [ours, theirs, sides] of [
+      [local, actions, LOCAL_ACTIONS],
+      [actions, local, { Ours: 'actions', Theirs: 'local' }],
+    ] as const) {
+      const result = mergeGamesData(base, ours, theirs, sides);
+      assert.equal(result.Games[10].InstalledBuild, 2);
+      assert.equal(result.Games[10].LatestBuild, 5);
+      assert.equal(result.Resolved.length, 2);
+      assert.deepEqual(result.Conflicts, []);
+    }
+  });
+
+  it('reports a conflict and keeps ours when both sides are the same kind', () => {
+    const result = mergeGamesData(
+      map(game()),
+      map(game({ InstalledBuild: 2 })),
+      map(game({ InstalledBuild: 3 })),
+      { Ours: 'local', Theirs: 'local' }
+    );
+    assert.equal(result.Games[10].InstalledBuild, 2);
+    assert.equal(result.Conflicts.length, 1);
+    assert.equal(result.Conflicts[0].Field, 'InstalledBuild');
+  });
+
+  it('combines History and takes the higher NotifiedBuild', () => {
+    const result = mergeGamesData(
+      map(game({ History: [{ FirstSeen: '2024-01-01', BuildID: 1 }] })),
+      map(
+        game({
+          NotifiedBuild: 3,
+          History: [
+            { FirstSeen: '2024-01-01', BuildID: 1 },
+            { FirstSeen: '2024-03-01', BuildID: 3 },
+          ],
+        })
+      ),
+      map(
+        game({
+          NotifiedBuild: 2,
+          History: [
+            { FirstSeen: '2024-01-01', BuildID: 1 },
+            { FirstSeen: '2024-02-01', BuildID: 2 },
+          ],
+        })
+      ),
+      LOCAL_ACTIONS
+    );
+    assert.equal(result.Games[10].NotifiedBuild, 3);
+    assert.deepEqual(
+      result.Games[10].History?.map((h) => h.BuildID),
+      [1, 2, 3]
+    );
+  });
+
+  it('keeps build changes when the combined History is trimmed', () => {
+    const ratings = (from: number) =>
+      Array.from({ length: MAX_HISTORY_ENTRIES }, (_, i) => ({
+        FirstSeen: new Date(Date.UTC(2024, 1, 1, from + i)).toISOString(),
+        BuildID: 2,
+        RatingPercent: 50 + (i % 2),
+      }));
+    const first = { FirstSeen: '2024-01-01T00:00:00.000Z', BuildID: 1 };
+    const update = { FirstSeen: '2024-02-01T00:00:00.000Z', BuildID: 2 };
+    const result = mergeGamesData(
+      map(game({ History: [first, update] })),
+      map(game({ History: [first, update, ...ratings(1)] })),
+      map(game({ History: [first, update, ...ratings(1000)] })),
+      LOCAL_ACTIONS
+    );
+    const history = result.Games[10].History ?? [];
+    assert.equal(history.length, MAX_HISTORY_ENTRIES + 2);
+    assert.deepEqual(history.slice(0, 2), [first, update]);
+  });
+
+  it('re-decides Status from the merged builds', () => {
+    const result = mergeGamesData(
+      map(
+        game({
+          LatestBuild: 1,
+          Status: { Code: 'up-to-date', Reason: 'old' },
+        })
+      ),
+      map(
+        game({
+          InstalledBuild: 2,
+          LatestBuild: 1,
+          Status: { Code: 'ahead', Reason: 'local' },
+        })
+      ),
+      map(
+        game({
+          LatestBuild: 2,
+          Status: { Code: 'update-available', Reason: 'actions' },
+        })
+      ),
+      LOCAL_ACTIONS
+    );
+    assert.equal(result.Games[10].Status?.Code, 'up-to-date');
+    assert.deepEqual(result.Conflicts, []);
+  });
+});
+
+describe('mergeGamesData additions and removals', () => {
+  const other = game({ AppID: 20, Name: 'Other' });
+
+  it('keeps games added on either side', () => {
+    const result = mergeGamesData({}, map(game()), map(other), LOCAL_ACTIONS);
+    assert.deepEqual(Object.keys(result.Games), ['10', '20']);
+  });
+
+  it('removes a game removed on one side and unchanged on the other', () => {
+    const result = mergeGamesData(
+      map(game(), other),
+      map(other),
+      map(game(), other),
+      { Ours: 'actions', Theirs: 'actions' }
+    );
+    assert.deepEqual(Object.keys(result.Games), ['20']);
+    assert.deepEqual(result.Conflicts, []);
+  });
+
+  it('lets a local removal win over Steam-side updates', () => {
+    const result = mergeGamesData(
+      map(game()),
+      {},
+      map(game({ LatestBuild: 5 })),
+      LOCAL_ACTIONS
+    );
+    assert.deepEqual(result.Games, {});
+    assert.equal(result.Resolved.length, 1);
+  });
+
+  it('keeps a game removed by Actions but changed locally, as a conflict', () => {
+    const result = mergeGamesData(
+      map(game()),
+      map(game({ InstalledBuild: 2 })),
+      {},
+      LOCAL_ACTIONS
+    );
+    assert.equal(result.Games[10].InstalledBuild, 2);
+    assert.equal(result.Conflicts.length, 1);
+    assert.equal(result.Conflicts[0].Field, undefined);
+  });
+});
+
+describe('readMergeSide', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'svc-merge-test-'));
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  const write = (content: string) => {
+    const file = path.join(dir, 'games.json');
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  it('reads an empty ancestor as no games', () => {
+    assert.deepEqual(readMergeSide(write('')), {});
+  });
+
+  it('fails instead of dropping invalid entries', () => {
+    const file = write(
+      JSON.stringify({
+        SchemaVersion: 4,
+        Games: { '10': { Name: 'Game', AppID: 10 }, '20': { AppID: 20 } },
+      })
+    );
+    assert.throws(
+      () => readMergeSide(file),
+      (e: unknown) => e instanceof GamesMergeError && /"20"/.test(e.message)
+    );
+  });
+});
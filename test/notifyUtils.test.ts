@@ -0,0 +1,154 @@
+import assert from 'node:assert/strict';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { UpdateNotification } from '../src/types';
+import {
+  detectNotification,
+  parseWebhookTarget,
+  sendNotifications,
+} from '../src/utils/notifyUtils';
+
+describe('detectNotification', () => {
+  const game = { Name: 'Game', AppID: 10, InstalledBuild: 1 };
+
+  it('announces an update that just became available', () => {
+    const n = detectNotification(
+      { InstalledBuild: 1, LatestBuild: 1 },
+      { ...game, LatestBuild: 2 }
+    );
+    assert.equal(n?.Kind, 'update-available');
+    assert.equal(n?.PreviousBuild, 1);
+  });
+
+  it('announces a new build when the backup is already ahead', () => {
+    const n = detectNotification(
+      { InstalledBuild: 5, LatestBuild: 3 },
+      { ...game, InstalledBuild: 5, LatestBuild: 4 }
+    );
+    assert.equal(n?.Kind, 'new-build');
+  });
+
+  it('never announces the same build twice', () => {
+    assert.equal(
+      detectNotification(
+        { InstalledBuild: 1, LatestBuild: 1 },
+        { ...game, LatestBuild: 2, NotifiedBuild: 2 }
+      ),
+      null
+    );
+    assert.equal(
+      detectNotification(
+        { InstalledBuild: 1, LatestBuild: 2 },
+        { ...game, LatestBuild: 2 }
+      ),
+      null
+    );
+  });
+});
+
+describe('parseWebhookTarget', () => {
+  it('reads an optional format prefix', () => {
+    assert.deepEqual(parseWebhookTarget('discord:https://d.example/hook'), {
+      url: 'https://d.example/hook',
+      format: 'discord',
+    });
+    assert.deepEqual(parseWebhookTarget(' http://localhost:1/x '), {
+      url: 'http://localhost:1/x',
+      format: 'json',
+    });
+  });
+
+  it('rejects unknown formats and non-http URLs', () => {
+    assert.throws(() => parseWebhookTarget('teams:https://x'), /format/);
+    assert.throws(() => parseWebhookTarget('ftp://x'), /http\(s\)/);
+  });
+});
+
+describe('sendNotifications against a local stand-in', () => {
+  const received: { url: string; body: unknown }[] = [];
+  let server: http.Server;
+  let base: string;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ url: req.url ?? '', body: JSON.parse(body) });
+        if (req.url === '/reset') {
+          // Headers and part of a body, then the connection goes away.
+          res.writeHead(200, { 'Content-Length': 100 });
+          res.write('{"ok":');
+          setTimeout(() => res.socket?.destroy(), 20);
+          return;
+        }
+        res.writeHead(req.url === '/fail' ? 500 : 204).end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  after(() => server.close());
+
+  const update: UpdateNotification = {
+    Kind: 'update-available',
+    Name: 'Game',
+    AppID: 10,
+    Branch: 'public',
+    InstalledBuild: 1,
+    PreviousBuild: 1,
+    LatestBuild: 2,
+  };
+
+  it('posts each format and reports which apps got through', async () => {
+    const delivered = await sendNotifications(
+      [update, { ...update, AppID: 20 }],
+      [
+        parseWebhookTarget(`${base}/json`),
+        parseWebhookTarget(`slack:${base}/slack`),
+      ]
+    );
+    assert.deepEqual([...delivered], [10, 20]);
+    assert.equal(received.length, 4);
+    assert.deepEqual(received[0], {
+      url: '/json',
+      body: {
+        event: 'update-available',
+        name: 'Game',
+        appId: 10,
+        branch: 'public',
+        installedBuild: 1,
+        previousBuild: 1,
+        latestBuild: 2,
+        latestDate: null,
+        message: '⚠️ Update available for Game: build 1 → 2',
+      },
+    });
+    assert.match(
+      (received[1].body as { text: string }).text,
+      /store\.steampowered\.com\/app\/10\//
+    );
+  });
+
+  it('never throws for failing targets', async () => {
+    const delivered = await sendNotifications(
+      [update],
+      [
+        parseWebhookTarget(`${base}/fail`),
+        parseWebhookTarget('http://127.0.0.1:1/unreachable'),
+      ]
+    );
+    assert.equal(delivered.size, 0);
+  });
+
+  it('gives up on a connection reset mid-response', async () => {
+    const delivered = await sendNotifications(
+      [update],
+      [parseWebhookTarget(`${base}/reset`)]
+    );
+    assert.equal(delivered.size, 0);
+  });
+});
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { LocalBackup } from '../src/types';
+import { executePrunePlan, planPrune } from '../src/utils/pruneUtils';
+
+describe('prune', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'svc-prune-'));
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  function backup(build: number, branch?: string): LocalBackup {
+    const file = path.join(
+      dir,
+      `Game_10_${build}${branch ? `_${branch}` : ''}.7z`
+    );
+    fs.writeFileSync(file, 'x'.repeat(build));
+    return {
+      Name: 'Game',
+      AppID: 10,
+      InstalledBuild: build,
+      Branch: branch,
+      Source: 'backup',
+      Files: [file],
+    };
+  }
+
+  it('only supersedes backups of the same branch', () => {
+    const plan = planPrune([
+      backup(5),
+      backup(7),
+      backup(9, 'beta'),
+      backup(3, 'public'),
+    ]);
+    assert.deepEqual(
+      plan.Items.map((item) => [
+        item.Backup.InstalledBuild,
+        item.SupersededBy.InstalledBuild,
+      ]).sort(),
+      [
+        [3, 7],
+        [5, 7],
+      ]
+    );
+    assert.equal(plan.TotalBytes, 8);
+  });
+
+  it('moves superseded backups to the trash folder', () => {
+    const old = backup(5);
+    const trash = path.join(dir, 'trash');
+    const reclaimed = executePrunePlan(planPrune([old, backup(7)]), trash);
+    assert.equal(reclaimed, 5);
+    assert.equal(fs.existsSync(old.Files[0]), false);
+    assert.deepEqual(fs.readdirSync(trash), [path.basename(old.Files[0])]);
+  });
+});
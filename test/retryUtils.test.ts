@@ -0,0 +1,163 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  FetchError,
+  getBackoffDelay,
+  isFetchFailureKind,
+  parseRetryAfter,
+  toFetchFailure,
+  withRetry,
+} from '../src/utils/retryUtils';
+
+const FAST = { RetryBaseDelayMs: 1, RetryMaxDelayMs: 5 };
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2024-01-01T00:00:00Z');
+
+  it('reads delays in seconds', () => {
+    assert.equal(parseRetryAfter('120', now), 120000);
+    assert.equal(parseRetryAfter(' 0 ', now), 0);
+    assert.equal(parseRetryAfter(['5', '9'], now), 5000);
+  });
+
+  it('reads HTTP dates relative to now, never negative', () => {
+    assert.equal(parseRetryAfter('Mon, 01 Jan 2024 00:00:30 GMT', now), 30000);
+    assert.equal(parseRetryAfter('Sun, 31 Dec 2023 23:00:00 GMT', now), 0);
+  });
+
+  it('ignores missing and unreadable values', () => {
+    assert.equal(parseRetryAfter(undefined, now), undefined);
+    assert.equal(parseRetryAfter('', now), undefined);
+    assert.equal(parseRetryAfter('soon', now), undefined);
+  });
+});
+
+describe('getBackoffDelay', () => {
+  it('doubles per attempt with jitter between half and the full delay', () => {
+    const options = { RetryBaseDelayMs: 1000, RetryMaxDelayMs: 60000 };
+    for (const [attempt, full] of [
+      [1, 1000],
+      [2, 2000],
+      [3, 4000],
+    ]) {
+      for (let i = 0; i < 20; i++) {
+        const delay = getBackoffDelay(attempt, options);
+        assert.ok(delay >= full / 2 && delay <= full, `${attempt}: ${delay}`);
+      }
+    }
+  });
+
+  it('caps the delay at RetryMaxDelayMs', () => {
+    const options = { RetryBaseDelayMs: 1000, RetryMaxDelayMs: 3000 };
+    for (let i = 0; i < 20; i++) {
+      assert.ok(getBackoffDelay(10, options) <= 3000);
+    }
+  });
+});
+
+describe('withRetry', () => {
+  it('retries retryable failures until the operation succeeds', async () => {
+    let calls = 0;
+    const result = await withRetry(
+      'test-retryable',
+      async () => {
+        if (++calls < 3) throw new FetchError('busy', 'unavailable');
+        return 'ok';
+      },
+      { ...FAST, Retries: 3 }
+    );
+    assert.equal(result, 'ok');
+    assert.equal(calls, 3);
+  });
+
+  it('gives up after Retries and throws the last failure', async () => {
+    let calls = 0;
+    await assert.rejects(
+      withRetry(
+        'test-exhausted',
+        async () => {
+          calls++;
+          throw new FetchError('slow', 'timeout');
+        },
+        { ...FAST, Retries: 2 }
+      ),
+      (e: unknown) => e instanceof FetchError && e.kind === 'timeout'
+    );
+    assert.equal(calls, 3);
+  });
+
+  it('does not retry parse errors, access restrictions or bugs', async () => {
+    for (const error of [
+      new FetchError('bad json', 'parse-error'),
+      new FetchError('no depots', 'access-denied'),
+      new TypeError('bug'),
+    ]) {
+      let calls = 0;
+      await assert.rejects(
+        withRetry(
+          'test-permanent',
+          async () => {
+            calls++;
+            throw error;
+          },
+          { ...FAST, Retries: 3 }
+        ),
+        error
+      );
+      assert.equal(calls, 1);
+    }
+  });
+
+  it('gives up at once when Retry-After exceeds RetryMaxDelayMs', async () => {
+    let calls = 0;
+    await assert.rejects(
+      withRetry(
+        'test-retry-after',
+        async () => {
+          calls++;
+          throw new FetchError('429', 'rate-limited', 60000);
+        },
+        { ...FAST, Retries: 3 }
+      )
+    );
+    assert.equal(calls, 1);
+  });
+
+  it('opens the circuit breaker after repeated failures', async () => {
+    const options = {
+      ...FAST,
+      Retries: 0,
+      CircuitBreakerThreshold: 2,
+      CircuitBreakerCooldownMs: 60000,
+    };
+    let calls = 0;
+    const failing = async () => {
+      calls++;
+      throw new FetchError('down', 'network');
+    };
+    await assert.rejects(withRetry('test-breaker', failing, options));
+    await assert.rejects(withRetry('test-breaker', failing, options));
+    await assert.rejects(
+      withRetry('test-breaker', failing, options),
+      /skipped after 2 consecutive failures/
+    );
+    assert.equal(calls, 2);
+  });
+});
+
+describe('failure classification', () => {
+  it('keeps the kind of a FetchError and treats other errors as network', () => {
+    assert.deepEqual(
+      toFetchFailure('reviews', new FetchError('HTTP 429', 'rate-limited')),
+      { Source: 'reviews', Kind: 'rate-limited', Message: 'HTTP 429' }
+    );
+    assert.equal(toFetchFailure('store', new Error('x')).Kind, 'network');
+  });
+
+  it('only accepts known kinds', () => {
+    assert.ok(isFetchFailureKind('timeout'));
+    assert.ok(!isFetchFailureKind('toString'));
+    assert.ok(!isFetchFailureKind('bogus'));
+    assert.ok(!isFetchFailureKind(1));
+  });
+});
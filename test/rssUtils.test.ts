@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { GameData } from '../src/types';
+import { renderAtomFeed } from '../src/utils/rssUtils';
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+function game(fields: Partial<GameData>): GameData {
+  return { Name: 'Game', AppID: 10, ...fields };
+}
+
+describe('renderAtomFeed', () => {
+  it('has one entry per build change, newest first', () => {
+    const feed = renderAtomFeed(
+      [
+        game({
+          Name: 'A & B',
+          History: [
+            { FirstSeen: '2025-01-01T00:00:00Z', BuildID: 1 },
+            { FirstSeen: '2025-02-01T00:00:00Z', BuildID: 1, RatingPercent: 9 },
+            { FirstSeen: '2025-03-01T00:00:00Z', BuildID: 2 },
+          ],
+        }),
+        game({
+          AppID: 20,
+          Branch: 'beta',
+          History: [
+            { FirstSeen: '2025-01-01T00:00:00Z', BuildID: 5 },
+            { FirstSeen: '2025-04-01T00:00:00Z', BuildID: 6, TimeUpdated: 0 },
+          ],
+        }),
+      ],
+      NOW
+    );
+
+    const ids = [...feed.matchAll(/<id>(urn:[^<]*build[^<]*)<\/id>/g)].map(
+      (m) => m[1]
+    );
+    assert.deepEqual(ids, [
+      'urn:steamversionchecker:build:10:2',
+      'urn:steamversionchecker:build:20:6',
+    ]);
+    assert.match(feed, /<title>A &amp; B: build 1 → 2<\/title>/);
+    assert.match(feed, /<title>Game \[beta\]: build 5 → 6<\/title>/);
+    // Steam's timeupdated wins over the time the change was first seen.
+    assert.match(feed, /<updated>1970-01-01T00:00:00.000Z<\/updated>/);
+    assert.match(
+      feed,
+      /<feed[^]*?<updated>2025-03-01T00:00:00.000Z<\/updated>/
+    );
+  });
+
+  it('stays the same between runs when nothing changed', () => {
+    const games = [
+      game({
+        History: [
+          { FirstSeen: '2025-01-01T00:00:00Z', BuildID: 1 },
+          { FirstSeen: '2025-03-01T00:00:00Z', BuildID: 2 },
+        ],
+      }),
+    ];
+    assert.equal(
+      renderAtomFeed(games, NOW),
+      renderAtomFeed(games, new Date('2026-06-01T00:00:00Z'))
+    );
+  });
+
+  it('dates an empty feed at its generation time', () => {
+    const feed = renderAtomFeed([game({})], NOW);
+    assert.doesNotMatch(feed, /<entry>/);
+    assert.match(feed, /<updated>2026-01-01T00:00:00.000Z<\/updated>/);
+  });
+});
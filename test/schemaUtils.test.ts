@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  GAMES_SCHEMA_VERSION,
+  GamesDataError,
+  loadGamesDocument,
+  migrateGamesDocument,
+  toGamesDocument,
+} from '../src/utils/schemaUtils';
+
+describe('games.json migrations', () => {
+  it('upgrades a bare version 1 map through every step to version 4', () => {
+    const result = loadGamesDocument({
+      '10': {
+        Name: 'Game',
+        AppID: 10,
+        InstalledBuild: 1,
+        Rating: '95%',
+        Status: '⚠️ Update available',
+      },
+    });
+
+    assert.equal(result.FromVersion, 1);
+    assert.equal(result.Migrations.length, 3);
+    assert.match(result.Migrations[0], /^1 → 2/);
+    assert.match(result.Migrations[1], /^2 → 3/);
+    assert.match(result.Migrations[2], /^3 → 4/);
+    assert.deepEqual(result.Games[10], {
+      Name: 'Game',
+      AppID: 10,
+      InstalledBuild: 1,
+      Status: {
+        Code: 'update-available',
+        Reason: 'Migrated from "⚠️ Update available"',
+      },
+    });
+  });
+
+  it('drops the obsolete Rating field when upgrading from 2', () => {
+    const { Document, Applied } = migrateGamesDocument({
+      SchemaVersion: 2,
+      Games: { '10': { Name: 'Game', AppID: 10, Rating: '95%' } },
+    });
+    assert.equal(Applied.length, 2);
+    assert.equal(Document.SchemaVersion, GAMES_SCHEMA_VERSION);
+    assert.deepEqual(Document.Games['10'], { Name: 'Game', AppID: 10 });
+  });
+
+  it('maps legacy Status text to codes and drops unknown text at 3 → 4', () => {
+    const { Document } = migrateGamesDocument({
+      SchemaVersion: 3,
+      Games: {
+        '1': { Name: 'A', AppID: 1, Status: '✅ Up to date' },
+        '2': { Name: 'B', AppID: 2, Status: '❌ Failed' },
+        '3': { Name: 'C', AppID: 3, Status: 'something else' },
+      },
+    });
+    assert.equal(Document.Games['1'].Status?.Code, 'up-to-date');
+    assert.equal(Document.Games['2'].Status?.Code, 'build-unknown');
+    assert.equal(Document.Games['3'].Status, undefined);
+  });
+
+  it('leaves a current document unchanged', () => {
+    const document = {
+      SchemaVersion: GAMES_SCHEMA_VERSION,
+      Games: { '10': { Name: 'Game', AppID: 10 } },
+    };
+    const result = loadGamesDocument(document);
+    assert.deepEqual(result.Migrations, []);
+    assert.deepEqual(toGamesDocument(result.Games), document);
+  });
+
+  it('refuses documents from a newer release or with a bad version', () => {
+    assert.throws(
+      () => loadGamesDocument({ SchemaVersion: 99, Games: {} }),
+      GamesDataError
+    );
+    assert.throws(
+      () => loadGamesDocument({ SchemaVersion: '4', Games: {} }),
+      /Invalid SchemaVersion/
+    );
+    assert.throws(() => loadGamesDocument([]), /must contain a JSON object/);
+  });
+});
+
+describe('games.json validation', () => {
+  it('rejects entries with an unusable key, AppID or Name', () => {
+    const result = loadGamesDocument({
+      SchemaVersion: GAMES_SCHEMA_VERSION,
+      Games: {
+        abc: { Name: 'A', AppID: 1 },
+        '2': { Name: '', AppID: 2 },
+        '3': { Name: 'C', AppID: '3' },
+        '4': { Name: 'D', AppID: 4 },
+      },
+    });
+    assert.deepEqual(
+      result.Rejected.map((r) => r.Key),
+      ['2', '3', 'abc']
+    );
+    assert.deepEqual(Object.keys(result.Games), ['4']);
+  });
+
+  it('drops unknown and malformed optional fields', () => {
+    const result = loadGamesDocument({
+      SchemaVersion: GAMES_SCHEMA_VERSION,
+      Games: {
+        '4': {
+          Name: 'D',
+          AppID: 4,
+          LatestBuild: -1,
+          Extra: true,
+          Status: { Code: 'toString', Reason: 'x' },
+          FetchFailures: [{ Source: 'steamcmd', Kind: 'bogus', Message: 'x' }],
+          InstalledBuild: 7,
+        },
+      },
+    });
+    assert.deepEqual(result.Games[4], {
+      Name: 'D',
+      AppID: 4,
+      InstalledBuild: 7,
+    });
+    assert.deepEqual(
+      result.Dropped[0].Fields.map((f) => f.split(' ')[0]),
+      ['LatestBuild', 'Extra', 'Status', 'FetchFailures']
+    );
+  });
+});
@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { GameData } from '../src/types';
+import {
+  HttpError,
+  ServerEvents,
+  startReportServer,
+} from '../src/utils/serverUtils';
+
+describe('startReportServer', () => {
+  const games: GameData[] = [{ Name: 'Game', AppID: 10, LatestBuild: 1 }];
+  let checks = 0;
+  let server: http.Server;
+  let events: ServerEvents;
+  let port: number;
+
+  before(async () => {
+    events = new ServerEvents();
+    server = await startReportServer(
+      {
+        renderReport: () => '<p>report</p>',
+        readFeed: () => null,
+        listGames: () => games,
+        refreshGame: async (appId) => {
+          if (appId !== 10) throw new HttpError(404, 'not tracked');
+          return { ...games[0], LatestBuild: 2 };
+        },
+        startCheck: () => {
+          checks++;
+        },
+      },
+      events,
+      '127.0.0.1',
+      0
+    );
+    port = (server.address() as AddressInfo).port;
+  });
+  after(() => {
+    events.close();
+    server.close();
+  });
+
+  function request(
+    method: string,
+    pathname: string,
+    headers: http.OutgoingHttpHeaders = {}
+  ): Promise<{ status: number; body: string }> {
+    return new Promise((resolve, reject) => {
+      const req = http.request(
+        { host: '127.0.0.1', port, method, path: pathname, headers },
+        (res) => {
+          let body = '';
+          res.setEncoding('utf8');
+          res.on('data', (chunk) => (body += chunk));
+          res.on('end', () => resolve({ status: res.statusCode ?? 0, body }));
+        }
+      );
+      req.on('error', reject);
+      req.end();
+    });
+  }
+
+  it('serves the report and the JSON API', async () => {
+    assert.deepEqual(await request('GET', '/'), {
+      status: 200,
+      body: '<p>report</p>',
+    });
+    const list = await request('GET', '/api/games');
+    assert.deepEqual(JSON.parse(list.body), { Games: games });
+    const game = await request('GET', '/api/games/10');
+    assert.equal(JSON.parse(game.body).Name, 'Game');
+    assert.equal((await request('GET', '/api/games/20')).status, 404);
+    assert.equal((await request('GET', '/api/games/x')).status, 400);
+    assert.equal((await request('GET', '/feed.xml')).status, 404);
+  });
+
+  it('refreshes a game and starts checks on POST only', async () => {
+    const refreshed = await request('POST', '/api/games/10/refresh');
+    assert.equal(JSON.parse(refreshed.body).LatestBuild, 2);
+    assert.equal((await request('GET', '/api/check')).status, 405);
+    assert.equal((await request('POST', '/api/check')).status, 202);
+    assert.equal(checks, 1);
+  });
+
+  it('refuses other Host names and cross-site POSTs', async () => {
+    for (const host of ['evil.example', `evil.example:${port}`]) {
+      const res = await request('GET', '/api/games', { Host: host });
+      assert.equal(res.status, 403);
+    }
+    assert.equal(
+      (await request('GET', '/', { Host: `localhost:${port}` })).status,
+      200
+    );
+    const crossSite = await request('POST', '/api/check', {
+      Origin: 'http://evil.example',
+    });
+    assert.equal(crossSite.status, 403);
+    assert.equal(checks, 1);
+  });
+
+  it('streams published events', async () => {
+    const received = await new Promise<string>((resolve, reject) => {
+      const req = http.get({ host: '127.0.0.1', port, path: '/api/events' });
+      req.on('response', (res) => {
+        let data = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk) => {
+          data += chunk;
+          if (data.includes(': connected')) {
+            events.publish('game', { Done: 1 });
+          }
+          if (data.includes('event: game')) {
+            req.destroy();
+            resolve(data);
+          }
+        });
+      });
+      req.on('error', reject);
+    });
+    assert.match(received, /event: game\ndata: \{"Done":1\}\n\n/);
+  });
+});
@@ -0,0 +1,197 @@
+import assert from 'node:assert/strict';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { FetchError } from '../src/utils/retryUtils';
+import {
+  createSteamSource,
+  getLatestBuilds,
+  parseSteamReviews,
+  requestSteamStore,
+  SteamRawSource,
+} from '../src/utils/steamUtils';
+
+const OPTIONS = { Retries: 0, SteamCmdRetries: 0, RetryBaseDelayMs: 1 };
+
+function appInfo(appId: number, changeNumber: number, buildId: number) {
+  return [
+    `AppID : ${appId}, change number : ${changeNumber}/0, last change : x`,
+    `"${appId}"`,
+    '{',
+    `  "common" { "name" "App ${appId}" "type" "Game" }`,
+    `  "depots" { "branches" { "public" { "buildid" "${buildId}" } } }`,
+    '}',
+  ].join('\n');
+}
+
+function fakeSource(
+  apps: Record<number, [changeNumber: number, buildId: number]>,
+  printed: number[][] = []
+): SteamRawSource {
+  const unused = async (): Promise<never> => {
+    throw new Error('not used');
+  };
+  return {
+    getAppInfoOutput: async (appIds) => {
+      printed.push(appIds);
+      return appIds
+        .filter((id) => apps[id])
+        .map((id) => appInfo(id, ...apps[id]))
+        .join('\n');
+    },
+    getReviewsResponse: unused,
+    getAppDetailsResponse: unused,
+  };
+}
+
+describe('getLatestBuilds', () => {
+  it('prints many apps per session and retries only the missing ones', async () => {
+    const printed: number[][] = [];
+    const apps: Record<number, [number, number]> = {};
+    for (let id = 1; id <= 150; id++) {
+      if (id !== 7) apps[id] = [id * 10, id * 100];
+    }
+    const builds = await getLatestBuilds(
+      [1, 1, ...Object.keys(apps).map(Number), 7],
+      fakeSource(apps, printed),
+      OPTIONS
+    );
+
+    assert.deepEqual(
+      printed.map((ids) => ids.length),
+      [100, 50, 1]
+    );
+    assert.deepEqual(printed[2], [7]);
+    assert.equal(builds.size, 150);
+    assert.equal(builds.get(42)?.BuildID, 4200);
+    assert.equal(builds.get(42)?.AppInfo?.Name, 'App 42');
+    assert.equal(builds.get(7)?.BuildID, null);
+    assert.equal(builds.get(7)?.Failure?.Kind, 'unavailable');
+  });
+
+  it('only parses apps whose change number moved, in one session', async () => {
+    const printed: number[][] = [];
+    const source = fakeSource({ 1: [100, 10], 2: [200, 20] }, printed);
+    const builds = await getLatestBuilds(
+      [1, 2],
+      source,
+      OPTIONS,
+      new Map([
+        [1, 100],
+        [2, 150],
+      ])
+    );
+    assert.deepEqual(printed, [[1, 2]]);
+    assert.equal(builds.get(1)?.Unchanged, true);
+    assert.equal(builds.get(1)?.ChangeNumber, 100);
+    assert.equal(builds.get(1)?.AppInfo, null);
+    assert.equal(builds.get(2)?.BuildID, 20);
+    assert.equal(builds.get(2)?.ChangeNumber, 200);
+  });
+
+  it(
+    'records a missing SteamCMD per app without retrying it',
+    { timeout: 10000 },
+    async () => {
+      const steamCmdPath = path.join(os.tmpdir(), 'svc-no-such-steamcmd');
+      // A retry would wait far longer than the test timeout, and a
+      // breaker that counted the failure would skip the second run.
+      const options = {
+        ...OPTIONS,
+        SteamCmdRetries: 2,
+        RetryBaseDelayMs: 60000,
+        CircuitBreakerThreshold: 1,
+      };
+      for (let run = 0; run < 2; run++) {
+        const builds = await getLatestBuilds(
+          [1, 2],
+          createSteamSource(steamCmdPath, options),
+          options
+        );
+        for (const appId of [1, 2]) {
+          assert.deepEqual(builds.get(appId)?.Failure, {
+            Source: 'steamcmd',
+            Kind: 'not-installed',
+            Message: `SteamCMD not found at ${steamCmdPath}`,
+          });
+        }
+      }
+    }
+  );
+});
+
+describe('requestSteamStore against a local stand-in', () => {
+  let server: http.Server;
+  let base: string;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/reset') {
+        // Headers and part of the body, then the connection goes away.
+        res.writeHead(200, { 'Content-Length': 100 });
+        res.write('{"success":');
+        setTimeout(() => res.socket?.destroy(), 20);
+        return;
+      }
+      res.writeHead(429, { 'Retry-After': '5' }).end('busy');
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  after(() => server.close());
+
+  it('returns answers of any status', async () => {
+    assert.deepEqual(
+      await requestSteamStore('appreviews', `${base}/busy`, 10, OPTIONS),
+      { Status: 429, RetryAfter: '5', Body: 'busy' }
+    );
+  });
+
+  it(
+    'rejects with a network failure when the body is cut off',
+    { timeout: 5000 },
+    async () => {
+      await assert.rejects(
+        requestSteamStore('appreviews', `${base}/reset`, 10, OPTIONS),
+        (e: unknown) => e instanceof FetchError && e.kind === 'network'
+      );
+    }
+  );
+});
+
+describe('parseSteamReviews', () => {
+  it('reads the review totals', () => {
+    const summary = parseSteamReviews(10, {
+      Status: 200,
+      Body: JSON.stringify({
+        success: 1,
+        query_summary: {
+          total_reviews: 4,
+          total_positive: 3,
+          total_negative: 1,
+          review_score_desc: 'Positive',
+        },
+      }),
+    });
+    assert.deepEqual(summary, {
+      ratingPercent: 75,
+      total: 4,
+      positive: 3,
+      negative: 1,
+      summary: 'Positive',
+    });
+  });
+
+  it('rejects answers that are not a successful review object', () => {
+    for (const body of ['[]', 'null', '{"success":2}']) {
+      assert.throws(
+        () => parseSteamReviews(10, { Status: 200, Body: body }),
+        (e: unknown) => e instanceof FetchError && e.kind === 'unavailable'
+      );
+    }
+  });
+});
@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseAppDetails } from '../src/utils/storeUtils';
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+function answer(body: unknown) {
+  return { Status: 200, Body: JSON.stringify(body) };
+}
+
+describe('parseAppDetails', () => {
+  it('reads the store page fields the report uses', () => {
+    const metadata = parseAppDetails(
+      10,
+      answer({
+        10: {
+          success: true,
+          data: {
+            header_image: 'https://cdn.example/10.jpg',
+            release_date: { coming_soon: false, date: '1 Nov, 2000' },
+            developers: ['Valve'],
+            genres: [{ id: '1', description: 'Action' }, null, 'bad'],
+            platforms: { windows: true, mac: false, linux: true },
+          },
+        },
+      }),
+      false,
+      NOW
+    );
+    assert.deepEqual(metadata, {
+      HeaderImage: 'https://cdn.example/10.jpg',
+      ReleaseDate: '1 Nov, 2000',
+      ComingSoon: undefined,
+      Developers: ['Valve'],
+      Publishers: undefined,
+      Genres: ['Action'],
+      Platforms: ['windows', 'linux'],
+      FetchedAt: NOW.toISOString(),
+    });
+  });
+
+  it('ignores fields of the wrong shape', () => {
+    const metadata = parseAppDetails(
+      10,
+      answer({
+        10: {
+          success: true,
+          data: { release_date: 'soon', platforms: ['windows'], genres: {} },
+        },
+      }),
+      false,
+      NOW
+    );
+    assert.equal(metadata.ReleaseDate, undefined);
+    assert.equal(metadata.Platforms, undefined);
+    assert.equal(metadata.Genres, undefined);
+  });
+
+  it('treats a missing or malformed entry as no store page', () => {
+    for (const body of [{ 10: { success: false } }, { 10: 1 }, [], null]) {
+      assert.throws(
+        () => parseAppDetails(10, answer(body)),
+        (e: Error & { kind?: string }) => e.kind === 'access-denied'
+      );
+    }
+    assert.throws(
+      () => parseAppDetails(10, answer({ 10: { success: true, data: 'x' } })),
+      /no store page/
+    );
+  });
+});
@@ -0,0 +1,161 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, describe, it } from 'node:test';
+import {
+  compileTemplateFile,
+  escapeHtml,
+  escapeScript,
+  escapeUrl,
+  TemplateError,
+} from '../src/utils/templateUtils';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'svc-template-test-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+let fileCount = 0;
+function writeTemplate(source: string, name = `t${fileCount++}.html`) {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, source);
+  return file;
+}
+
+function render(source: string, data: object): string {
+  return compileTemplateFile(writeTemplate(source))(data);
+}
+
+const ATTACK = `<script>alert("x")</script>' & "`;
+
+describe('escaping by context', () => {
+  it('HTML-escapes element text', () => {
+    assert.equal(
+      render('<p>{{ v }}</p>', { v: ATTACK }),
+      `<p>${escapeHtml(ATTACK)}</p>`
+    );
+    assert.doesNotMatch(render('<p>{{ v }}</p>', { v: ATTACK }), /<script/);
+  });
+
+  it('HTML-escapes quoted attributes, including quotes', () => {
+    assert.equal(
+      render(`<p title="{{ v }}" data-x='{{ v }}'></p>`, { v: `"' onx=1` }),
+      `<p title="&quot;&#39; onx=1" data-x='&quot;&#39; onx=1'></p>`
+    );
+  });
+
+  it('neutralises scripting URLs in href and src', () => {
+    assert.equal(
+      render('<a href="{{ v }}">x</a>', { v: ' javascript:alert(1)' }),
+      '<a href="#">x</a>'
+    );
+    assert.equal(
+      render('<img src="{{ v }}">', { v: 'data:text/html,x' }),
+      '<img src="#">'
+    );
+    assert.equal(
+      render('<a href="{{ v }}">x</a>', { v: 'https://a.example/?q=1&r=2' }),
+      '<a href="https://a.example/?q=1&amp;r=2">x</a>'
+    );
+    assert.equal(escapeUrl('page.html#top'), 'page.html#top');
+  });
+
+  it('reads the scheme the way browsers do, ignoring control characters', () => {
+    assert.equal(escapeUrl('java\tscript:alert(1)'), '#');
+    assert.equal(escapeUrl('\x01javascript:alert(1)'), '#');
+    assert.equal(escapeUrl('java\r\nscript:alert(1)'), '#');
+    assert.equal(escapeUrl('\x00 https://a.example/\n'), 'https://a.example/');
+  });
+
+  it('writes values inside <script> as JSON that cannot close it', () => {
+    const out = render('<script>const v = {{ v }};</script>', {
+      v: { s: '</script><b>&' },
+    });
+    assert.equal(
+      out,
+      '<script>const v = {"s":"\\u003c/script\\u003e\\u003cb\\u003e\\u0026"};</script>'
+    );
+    assert.equal(escapeScript(undefined), 'null');
+  });
+
+  it('inserts raw values unescaped', () => {
+    assert.equal(render('<p>{{ v | raw }}</p>', { v: '<b>' }), '<p><b></p>');
+  });
+
+  it('goes back to text after a script or style element', () => {
+    assert.equal(
+      render('<script>var a = 1;</script><p>{{ v }}</p>', { v: '<' }),
+      '<script>var a = 1;</script><p>&lt;</p>'
+    );
+  });
+});
+
+describe('rejected contexts', () => {
+  const rejects = (source: string, message: RegExp) =>
+    assert.throws(
+      () => compileTemplateFile(writeTemplate(source)),
+      (e: unknown) => e instanceof TemplateError && message.test(e.message)
+    );
+
+  it('rejects placeholders in event handler and style attributes', () => {
+    rejects('<a onclick="go({{ v }})">x</a>', /"onclick" attribute/);
+    rejects('<p style="color: {{ v }}"></p>', /"style" attribute/);
+  });
+
+  it('rejects placeholders in <style>, tags and unquoted attributes', () => {
+    rejects('<style>p { color: {{ v }} }</style>', /<style>/);
+    rejects('<p {{ v }}></p>', /inside a tag/);
+    rejects('<p title={{ v }}></p>', /unquoted attribute "title"/);
+  });
+
+  it('rejects unknown filters and unbalanced blocks', () => {
+    rejects('{{ v | upper }}', /unknown filter/);
+    rejects('{{#if v}}x', /unclosed/);
+    rejects('{{/each}}', /unexpected/);
+  });
+});
+
+describe('includes', () => {
+  it('scans included assets for the context that follows them', () => {
+    writeTemplate('a { color: red; }', 'open.css');
+    writeTemplate('</style><p>', 'close.css');
+    assert.equal(
+      render('<style>{{> open.css}}</style><p>{{ v }}</p>', { v: '<' }),
+      '<style>a { color: red; }</style><p>&lt;</p>'
+    );
+    // The asset closed <style>; the placeholder is in text now.
+    assert.equal(
+      render('<style>{{> close.css}}{{ v }}</p>', { v: '<' }),
+      '<style></style><p>&lt;</p>'
+    );
+  });
+
+  it('only includes files from the template directory', () => {
+    assert.throws(
+      () => compileTemplateFile(writeTemplate('{{> ../x.css}}')),
+      /must be in the template directory/
+    );
+  });
+
+  it('recompiles when the template or an asset changes', () => {
+    const asset = writeTemplate('one', 'changing.css');
+    const file = writeTemplate('<p>{{> changing.css}}</p>');
+    assert.equal(compileTemplateFile(file)({}), '<p>one</p>');
+
+    fs.writeFileSync(asset, 'two');
+    const later = new Date(Date.now() + 10000);
+    fs.utimesSync(asset, later, later);
+    assert.equal(compileTemplateFile(file)({}), '<p>two</p>');
+  });
+});
+
+describe('blocks', () => {
+  it('renders if/else and each with outward lookup', () => {
+    assert.equal(
+      render(
+        '{{#each items}}<i>{{ name }}{{ suffix }}</i>{{/each}}{{#if empty}}x{{else}}none{{/if}}',
+        { items: [{ name: 'a' }, { name: '<b>' }], suffix: '!', empty: [] }
+      ),
+      '<i>a!</i><i>&lt;b&gt;!</i>none'
+    );
+  });
+});
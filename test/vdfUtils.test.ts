@@ -0,0 +1,150 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  getVdfNumber,
+  getVdfObject,
+  getVdfString,
+  parseVdf,
+  parseVdfEntryAt,
+  VdfParseError,
+} from '../src/utils/vdfUtils';
+import { parseAppInfo, parseChangeNumbers } from '../src/utils/steamUtils';
+
+describe('parseVdf', () => {
+  it('parses nested objects', () => {
+    const vdf = parseVdf(`
+      "AppState"
+      {
+        "appid"   "730"
+        "UserConfig" { "BetaKey" "beta" }
+      }
+    `);
+    assert.deepEqual(vdf, {
+      AppState: { appid: '730', UserConfig: { BetaKey: 'beta' } },
+    });
+  });
+
+  it('unescapes known sequences and keeps unknown ones', () => {
+    const vdf = parseVdf('"a" "line\\nnext\\ttab \\"q\\" back\\\\slash \\x"');
+    assert.equal(vdf.a, 'line\nnext\ttab "q" back\\slash \\x');
+  });
+
+  it('skips comments and platform conditionals', () => {
+    const vdf = parseVdf(`
+      // leading comment
+      "a" "1" [$WIN32]
+      "b" "2" // trailing comment
+    `);
+    assert.deepEqual(vdf, { a: '1', b: '2' });
+  });
+
+  it('accepts unquoted keys and values', () => {
+    assert.deepEqual(parseVdf('key value\nother { nested 1 }'), {
+      key: 'value',
+      other: { nested: '1' },
+    });
+  });
+
+  it('keeps the last of duplicate keys', () => {
+    assert.deepEqual(parseVdf('"a" "1" "a" "2"'), { a: '2' });
+  });
+
+  it('parses empty input and empty objects', () => {
+    assert.deepEqual(parseVdf(''), {});
+    assert.deepEqual(parseVdf('"a" {}'), { a: {} });
+  });
+
+  it('reports where malformed input fails', () => {
+    assert.throws(() => parseVdf('"a" "unterminated'), VdfParseError);
+    assert.throws(() => parseVdf('"a" { "b" "1"'), /Unexpected end of input/);
+    assert.throws(() => parseVdf('"a" "1" }'), /Unexpected "}"/);
+    assert.throws(() => parseVdf('"a"'), /Missing value for key "a"/);
+    assert.throws(() => parseVdf('{ "a" "1" }'), /Expected key/);
+  });
+});
+
+describe('parseVdfEntryAt', () => {
+  it('parses one entry out of surrounding console output', () => {
+    const text = 'Loading...\n"42"\n{\n "common" { "name" "Game" }\n}\nDone';
+    const entry = parseVdfEntryAt(text, text.indexOf('"42"'));
+    assert.equal(entry.key, '42');
+    assert.deepEqual(entry.value, { common: { name: 'Game' } });
+    assert.equal(text.substring(entry.end).trim(), 'Done');
+  });
+
+  it('requires a block after the key', () => {
+    assert.throws(() => parseVdfEntryAt('"42" "x"', 0), /Expected "\{"/);
+  });
+});
+
+describe('VDF lookups', () => {
+  const vdf = parseVdf(
+    '"Root" { "BuildID" "123" "Neg" "-4" "Text" "12a" "Sub" { "x" "1" } }'
+  );
+
+  it('match keys case-insensitively', () => {
+    assert.equal(getVdfString(vdf, 'root.buildid'), '123');
+    assert.equal(getVdfNumber(vdf, ['ROOT', 'BuildID']), 123);
+  });
+
+  it('only return numbers for integer strings', () => {
+    assert.equal(getVdfNumber(vdf, 'Root.Neg'), -4);
+    assert.equal(getVdfNumber(vdf, 'Root.Text'), null);
+    assert.equal(getVdfNumber(vdf, 'Root.Sub'), null);
+  });
+
+  it('tell objects from strings', () => {
+    assert.deepEqual(getVdfObject(vdf, 'Root.Sub'), { x: '1' });
+    assert.equal(getVdfObject(vdf, 'Root.BuildID'), null);
+    assert.equal(getVdfString(vdf, 'Root.Missing.Deeper'), null);
+  });
+});
+
+describe('app_info_print output', () => {
+  const output = [
+    'AppID : 10, change number : 555/0, last change : Mon Jan  1 00:00:00 2024',
+    '"10"',
+    '{',
+    '  "common" { "name" "Counter-Strike" "type" "Game" }',
+    '  "depots"',
+    '  {',
+    '    "branches"',
+    '    {',
+    '      "public" { "buildid" "100" "timeupdated" "1700000000" }',
+    '      "beta" { "buildid" "101" "pwdrequired" "1" }',
+    '    }',
+    '  }',
+    '}',
+    'AppID : 20, change number : 777/0, last change : Mon Jan  1 00:00:00 2024',
+    '"20"',
+    '{',
+    '}',
+  ].join('\n');
+
+  it('reads change numbers from the header lines', () => {
+    assert.deepEqual(
+      parseChangeNumbers(output),
+      new Map([
+        [10, 555],
+        [20, 777],
+      ])
+    );
+  });
+
+  it('parses an app block with its branches', () => {
+    const info = parseAppInfo(output, 10);
+    assert.equal(info?.Name, 'Counter-Strike');
+    assert.equal(info?.ChangeNumber, 555);
+    assert.deepEqual(info?.Branches.public, {
+      BuildID: 100,
+      TimeUpdated: 1700000000,
+      Description: undefined,
+      PasswordRequired: false,
+    });
+    assert.equal(info?.Branches.beta.PasswordRequired, true);
+  });
+
+  it('returns null for apps that were not printed', () => {
+    assert.equal(parseAppInfo(output, 30), null);
+  });
+});
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { LocalBackup } from '../src/types';
+import {
+  BackupSettleTracker,
+  getFingerprint,
+  watchDirectories,
+} from '../src/utils/watchUtils';
+
+describe('watching backups', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'svc-watch-'));
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  function backup(name: string, appId = 10): LocalBackup {
+    return {
+      Name: 'Game',
+      AppID: appId,
+      InstalledBuild: 1,
+      Source: 'backup',
+      Files: [path.join(dir, name)],
+    };
+  }
+
+  it('fingerprints folders by their contents', () => {
+    const folder = path.join(dir, 'Game_10_1');
+    fs.mkdirSync(path.join(folder, 'sub'), { recursive: true });
+    fs.writeFileSync(path.join(folder, 'sub', 'a.bin'), 'a');
+    const before = getFingerprint(folder);
+    fs.writeFileSync(path.join(folder, 'sub', 'b.bin'), 'bb');
+    assert.notEqual(getFingerprint(folder), before);
+    assert.equal(getFingerprint(path.join(dir, 'gone')), null);
+  });
+
+  it('settles a backup once it stops changing', () => {
+    const file = path.join(dir, 'Game_10_1.7z');
+    fs.writeFileSync(file, 'a');
+    const tracker = new BackupSettleTracker(60000);
+    const now = fs.statSync(file).mtimeMs;
+
+    // Just written: not old enough on the first scan.
+    assert.equal(
+      tracker.split([backup('Game_10_1.7z')], now).Writing.length,
+      1
+    );
+    // Unchanged since the previous scan.
+    assert.equal(
+      tracker.split([backup('Game_10_1.7z')], now).Settled.length,
+      1
+    );
+    fs.appendFileSync(file, 'more');
+    assert.equal(
+      tracker.split([backup('Game_10_1.7z')], now).Writing.length,
+      1
+    );
+  });
+
+  it('takes untouched files as settled on the first scan', () => {
+    const file = path.join(dir, 'Game_10_1.7z');
+    fs.writeFileSync(file, 'a');
+    const later = fs.statSync(file).mtimeMs + 60000;
+    const { Settled } = new BackupSettleTracker(60000).split(
+      [backup('Game_10_1.7z')],
+      later
+    );
+    assert.equal(Settled.length, 1);
+  });
+
+  it(
+    'reports writes below the watched folder',
+    { timeout: 10000 },
+    async () => {
+      const folder = path.join(dir, 'Game_10_1');
+      fs.mkdirSync(folder);
+      let stop: (() => void) | undefined;
+      await new Promise<void>((resolve) => {
+        stop = watchDirectories([dir], 50, resolve);
+        setTimeout(() => fs.writeFileSync(path.join(folder, 'a.bin'), 'a'), 50);
+      });
+      stop?.();
+    }
+  );
+});